@@ -1,8 +1,35 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
-import { RevealWaveImage } from "@/components/ui/reveal-wave-image";
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { useMotionValue } from "framer-motion";
+import { RevealWaveImage, type RevealWaveImageRef } from "@/components/ui/reveal-wave-image";
 import SplitText from "@/components/ui/split-text";
+import { MotionToggle } from "@/components/ui/motion-toggle";
+import { StaticHome } from "@/components/static-home";
+import { TimelineRail, type TimelineChapter } from "@/components/ui/timeline-rail";
+import { LoadingScreen } from "@/components/ui/loading-screen";
+import { AssetErrorNotice } from "@/components/ui/asset-error-notice";
+import {
+  createScrollTimeline,
+  type ScrollTimeline,
+  type TimelineScene,
+} from "@/lib/scroll-timeline";
+import { attachDragInput } from "@/lib/drag-input";
+import {
+  attachTransitionEnd,
+  createTransitionMachine,
+  type TransitionStateConfig,
+} from "@/lib/transition-machine";
+import { attachTimelineHash, restoreTimelineHash } from "@/lib/timeline-hash";
+import {
+  createFrameScrubber,
+  createSeekScrubber,
+  type ScrubBackend,
+  type VideoScrubber,
+} from "@/lib/video-scrubber";
+import type { AssetManifestEntry, AssetPreloader, PreloaderSnapshot } from "@/lib/asset-preloader";
+import { useMotionPreference } from "@/hooks/use-motion-preference";
+import { useAssetPreloader, usePreloaderState } from "@/hooks/use-asset-preloader";
 
 // Determine basePath at runtime for asset loading
 const getBasePath = () => {
@@ -10,16 +37,170 @@ const getBasePath = () => {
   return window.location.hostname.includes('github.io') ? '/insane-website' : '';
 };
 
+const revealImageSrc =
+  "https://images.unsplash.com/photo-1518837695005-2083093ee35b?q=80&w=2070&auto=format&fit=crop";
+
+// Everything the timeline needs. Critical assets gate the start of the
+// experience; the final video keeps loading in the background.
+// Posters are local frames of their own video (the one each scrub starts on), so they
+// still load when the videos' host doesn't. The intro video's source isn't in the repo
+// yet, so it has no poster frame - without it the welcome text shows on black.
+const getAssetManifest = (basePath: string): AssetManifestEntry[] => [
+  {
+    id: "intro-video",
+    kind: "video",
+    source: `${basePath}/videos/background-60fps-cropped-optimized.mp4`,
+    critical: true,
+    estimatedBytes: 8 * 1024 * 1024,
+  },
+  {
+    id: "reveal-image",
+    kind: "image",
+    source: revealImageSrc,
+    critical: true,
+    estimatedBytes: 500 * 1024,
+  },
+  {
+    id: "fraunces",
+    kind: "font",
+    source: "var(--font-fraunces)",
+    critical: true,
+    estimatedBytes: 100 * 1024,
+  },
+  {
+    id: "final-video",
+    kind: "video",
+    source: `${basePath}/videos/trump-video-scrub.mp4`,
+    critical: false,
+    estimatedBytes: 10 * 1024 * 1024,
+    poster: `${basePath}/posters/final-video.jpg`,
+  },
+];
+
+const assetLabels: Record<string, string> = {
+  "intro-video": "Intro video",
+  "reveal-image": "Reveal image",
+  fraunces: "Fonts",
+  "final-video": "Final video",
+};
+
+// Scrub backend per video - "frames" decodes into a bounded frame cache for
+// smooth reverse scrubbing, "seek" sets currentTime directly
+const scrubBackends: Record<"intro" | "final", ScrubBackend> = {
+  intro: "seek",
+  final: "frames",
+};
+
+// Chapters shown on the progress rail - each starts at a timeline scene
+const chapters: TimelineChapter[] = [
+  { sceneId: "intro", label: "Welcome" },
+  { sceneId: "reveal", label: "Reveal" },
+  { sceneId: "el-capitan", label: "El Capitan" },
+  { sceneId: "final-video", label: "Final video" },
+];
+
+// EL CAPITAN slides up into the center, then off to the right. Sliding states wait for
+// the transform transition (or the timeout, if it never fires) before they settle
+type ElCapitanState = "hidden" | "sliding-up" | "centered" | "sliding-right" | "exited";
+type ElCapitanEvent = "show" | "hide" | "exit";
+
+const EL_CAPITAN_TRANSITION = "transform 1s ease-out, opacity 0.8s ease-out";
+const EL_CAPITAN_SETTLE_TIMEOUT = 1200;
+
+const elCapitanStates: Record<ElCapitanState, TransitionStateConfig<ElCapitanState, ElCapitanEvent>> = {
+  hidden: { on: { show: "sliding-up" } },
+  // Exit requested mid slide-up plays once centered; showing again cancels it
+  "sliding-up": {
+    on: { hide: "hidden", show: "sliding-up" },
+    settle: "centered",
+    timeout: EL_CAPITAN_SETTLE_TIMEOUT,
+    defer: ["exit"],
+  },
+  centered: { on: { hide: "hidden", exit: "sliding-right" } },
+  "sliding-right": {
+    on: { hide: "hidden", show: "centered" },
+    settle: "exited",
+    timeout: EL_CAPITAN_SETTLE_TIMEOUT,
+  },
+  exited: { on: { hide: "hidden", show: "centered" } },
+};
+
+const elCapitanStyles: Record<ElCapitanState, { transform: string; opacity: string }> = {
+  hidden: { transform: "translate(-50%, -50%) translateX(0vw) translateY(100vh)", opacity: "0" },
+  "sliding-up": { transform: "translate(-50%, -50%) translateX(0vw) translateY(0vh)", opacity: "1" },
+  centered: { transform: "translate(-50%, -50%) translateX(0vw) translateY(0vh)", opacity: "1" },
+  "sliding-right": { transform: "translate(-50%, -50%) translateX(100vw) translateY(0vh)", opacity: "1" },
+  exited: { transform: "translate(-50%, -50%) translateX(100vw) translateY(0vh)", opacity: "1" },
+};
+
+// The reveal image can be seen from the second half of its scene (where it fades in)
+// until the final video covers it - outside that range its WebGL canvas stays paused
+const isRevealVisible = (timeline: ScrollTimeline) => {
+  const reveal = timeline.getSceneRange("reveal");
+  if (!reveal) return false;
+  const final = timeline.getSceneRange("final-video");
+  const scroll = timeline.scroll;
+  return scroll > (reveal.start + reveal.end) / 2 && (!final || scroll <= final.start);
+};
+
+const findAsset = (snapshot: PreloaderSnapshot, id: string) =>
+  snapshot.assets.find((asset) => asset.id === id);
+
 export default function Home() {
+  const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const welcomeTextRef = useRef<HTMLDivElement>(null);
   const darkOverlayRef = useRef<HTMLDivElement>(null);
   const revealImageRef = useRef<HTMLDivElement>(null);
+  const revealWaveRef = useRef<RevealWaveImageRef>(null);
   const elCapitanRef = useRef<HTMLDivElement>(null);
   const trumpVideoRef = useRef<HTMLVideoElement>(null);
+  const introCanvasRef = useRef<HTMLCanvasElement>(null);
+  const trumpCanvasRef = useRef<HTMLCanvasElement>(null);
+  const introPosterRef = useRef<HTMLDivElement>(null);
   const [isReady, setIsReady] = useState(false);
   const [basePath, setBasePath] = useState<string | null>(null);
-  const [showElCapitan, setShowElCapitan] = useState(false);
+  // EL CAPITAN letters scrub with the el-capitan scene
+  const elCapitanProgress = useMotionValue(0);
+  // Timeline exposed to the progress rail and reveal pausing once setup has finished
+  const [railTimeline, setRailTimeline] = useState<ScrollTimeline | null>(null);
+  const { reducedMotion, setReducedMotion } = useMotionPreference();
+
+  const subscribeTimeline = useCallback(
+    (listener: () => void) => railTimeline?.subscribe(listener) ?? (() => { }),
+    [railTimeline],
+  );
+  const revealActive = useSyncExternalStore(
+    subscribeTimeline,
+    () => (railTimeline ? isRevealVisible(railTimeline) : false),
+    () => false,
+  );
+
+  const manifest = useMemo(
+    () => (basePath === null ? null : getAssetManifest(basePath)),
+    [basePath],
+  );
+  // Reduced motion streams media natively - nothing to preload
+  const preloader = useAssetPreloader(manifest, !reducedMotion);
+  // Only the fields rendered here - byte progress re-renders just the loading screen and error notice
+  const criticalReady = usePreloaderState(preloader, (snapshot) => snapshot.criticalReady, false);
+  const loadedIntroUrl = usePreloaderState(preloader, (snapshot) => findAsset(snapshot, "intro-video")?.url ?? null, null);
+  const introPoster = usePreloaderState(preloader, (snapshot) => findAsset(snapshot, "intro-video")?.poster ?? null, null);
+  const finalPoster = usePreloaderState(preloader, (snapshot) => findAsset(snapshot, "final-video")?.poster ?? undefined, undefined);
+  const revealImageUrl = usePreloaderState(preloader, (snapshot) => findAsset(snapshot, "reveal-image")?.url ?? null, null);
+  // The experience starts once every critical asset has loaded or failed, and stays started:
+  // retrying a failed asset sets it back to loading, which must not tear the timeline down.
+  // Latched per preloader run - reduced motion disposes it, so it starts over after that
+  const activePreloader = reducedMotion ? null : preloader;
+  const [startedPreloader, setStartedPreloader] = useState<AssetPreloader | null>(null);
+  if (activePreloader && criticalReady && startedPreloader !== activePreloader) {
+    setStartedPreloader(activePreloader);
+  } else if (!activePreloader && startedPreloader !== null) {
+    setStartedPreloader(null);
+  }
+  const experienceReady = activePreloader !== null
+    && (startedPreloader === activePreloader || criticalReady);
+  const introVideoUrl = experienceReady ? loadedIntroUrl : null;
 
   // Set basePath on mount - must happen before video tries to load
   useEffect(() => {
@@ -27,114 +208,67 @@ export default function Home() {
   }, []);
 
   useEffect(() => {
-    // Don't run until basePath is set (video is rendered)
-    if (basePath === null) return;
+    // Don't run until the critical assets have settled (video or poster is rendered)
+    if (!experienceReady || !preloader) return;
+    // Reduced motion renders a natively scrolling layout instead
+    if (reducedMotion) return;
 
     const video = videoRef.current;
     const welcomeText = welcomeTextRef.current;
     const elCapitanText = elCapitanRef.current;
-    if (!video) return;
+    const container = containerRef.current;
 
     // Check if video is already loaded (cached) and set ready immediately
-    if (video.readyState >= 3) {
+    if (video && video.readyState >= 3) {
       setIsReady(true);
     }
 
     const startOffset = 0.1;
 
-    // Phase 1: Video playback scroll (4 viewport heights)
-    const videoScrollMax = 4 * window.innerHeight;
-    // Phase 2: Text continues sliding up (2 viewport heights)
-    const textExitScrollMax = 2 * window.innerHeight;
-    // Phase 3: EL CAPITAN text slides up (1 viewport height - triggers quickly)
-    const elCapitanSlideUpMax = 1 * window.innerHeight;
-    // Phase 4: EL CAPITAN text slides right (1 viewport height)
-    const elCapitanSlideRightMax = 1 * window.innerHeight;
-    // Phase 5: Trump video scroll-controlled (4 viewport heights for full video scrub)
-    const trumpVideoFadeMax = 4 * window.innerHeight;
-    // Total scroll range
-    const maxScroll = videoScrollMax + textExitScrollMax + elCapitanSlideUpMax + elCapitanSlideRightMax + trumpVideoFadeMax;
-
-    // Virtual scroll position (not tied to browser scroll)
-    let virtualScroll = 0;
-
     const revealImage = revealImageRef.current;
     const darkOverlay = darkOverlayRef.current;
     const trumpVideo = trumpVideoRef.current;
+    const introCanvas = introCanvasRef.current;
+    const trumpCanvas = trumpCanvasRef.current;
+
+    // Elements that show each video - the canvas only exists for the frames backend,
+    // the poster only when the video failed to load
+    const introSurfaces = [video, introCanvas, introPosterRef.current].filter((el) => el !== null);
+    const trumpSurfaces = [trumpVideo, trumpCanvas].filter((el) => el !== null);
+
+    const createScrubber = (
+      target: HTMLVideoElement,
+      canvas: HTMLCanvasElement | null,
+      backend: ScrubBackend,
+      startTime: number,
+    ): VideoScrubber =>
+      backend === "frames" && canvas
+        ? createFrameScrubber(target, { canvas, startTime })
+        : createSeekScrubber(target, { startTime });
+
+    const introScrubber = video
+      ? createScrubber(video, introCanvas, scrubBackends.intro, startOffset)
+      : null;
+    // Created once the intro video is ready, so decoding doesn't compete with it
+    let trumpScrubber: VideoScrubber | null = null;
 
-    // Track current animation state
-    let elCapitanState: 'hidden' | 'sliding-up' | 'centered' | 'sliding-right' | 'exited' = 'hidden';
-    let pendingSlideRight = false; // Queue slide-right if triggered during slide-up
     let trumpVideoTriggered = false; // Track if Trump video has been triggered
 
-    const triggerSlideRight = () => {
-      if (!elCapitanText) return;
-      elCapitanState = 'sliding-right';
-      elCapitanText.style.transform = `translate(-50%, -50%) translateX(100vw) translateY(0vh)`;
-      elCapitanText.style.opacity = '1';
-      setTimeout(() => {
-        if (elCapitanState === 'sliding-right') {
-          elCapitanState = 'exited';
-        }
-      }, 1000);
-    };
-
-    const updateElCapitanPosition = (phase: number) => {
-      if (!elCapitanText) return;
-      // phase: 0 = not yet triggered (hidden below)
-      // phase: 1 = trigger slide up animation
-      // phase: 2 = trigger slide right animation
-
-      // Add CSS transition for smooth automatic animation
-      elCapitanText.style.transition = 'transform 1s ease-out, opacity 0.8s ease-out';
-
-      if (phase === 0 && elCapitanState !== 'hidden') {
-        // Reset to hidden state (scrolling back up)
-        elCapitanState = 'hidden';
-        pendingSlideRight = false; // Cancel any pending slide-right
-        elCapitanText.style.transform = `translate(-50%, -50%) translateX(0vw) translateY(100vh)`;
-        elCapitanText.style.opacity = '0';
-        setShowElCapitan(false); // Reset split text animation
-      } else if (phase === 1 && elCapitanState === 'hidden') {
-        // Trigger slide up animation automatically
-        elCapitanState = 'sliding-up';
-        pendingSlideRight = false;
-        elCapitanText.style.transform = `translate(-50%, -50%) translateX(0vw) translateY(0vh)`;
-        elCapitanText.style.opacity = '1';
-        setShowElCapitan(true); // Trigger split text animation
-        // Mark as centered after animation completes
-        setTimeout(() => {
-          if (elCapitanState === 'sliding-up') {
-            elCapitanState = 'centered';
-            // If slide-right was requested during slide-up, trigger it now
-            if (pendingSlideRight) {
-              pendingSlideRight = false;
-              triggerSlideRight();
-            }
-          }
-        }, 1000);
-      } else if (phase === 2 && elCapitanState === 'centered') {
-        // Trigger slide right animation (only if already centered)
-        triggerSlideRight();
-      } else if (phase === 2 && elCapitanState === 'sliding-up') {
-        // Queue slide-right to happen after slide-up completes
-        pendingSlideRight = true;
-      } else if (phase === 1 && elCapitanState === 'exited') {
-        // Scrolling back - bring it back to center from right
-        pendingSlideRight = false;
-        elCapitanState = 'centered';
-        elCapitanText.style.transform = `translate(-50%, -50%) translateX(0vw) translateY(0vh)`;
-        elCapitanText.style.opacity = '1';
-        setShowElCapitan(true); // Re-trigger split text animation
-      } else if (phase === 1 && elCapitanState === 'sliding-right') {
-        // Scrolling back while sliding right - return to center
-        pendingSlideRight = false;
-        elCapitanState = 'centered';
-        elCapitanText.style.transform = `translate(-50%, -50%) translateX(0vw) translateY(0vh)`;
-        elCapitanText.style.opacity = '1';
-        setShowElCapitan(true); // Re-trigger split text animation
-      }
-    };
+    // EL CAPITAN position - the machine decides, its listener moves the element
+    const elCapitanMachine = createTransitionMachine({ initial: "hidden", states: elCapitanStates });
+    const detachElCapitanTransition = elCapitanText
+      ? attachTransitionEnd(elCapitanMachine, elCapitanText, "transform")
+      : null;
+    if (elCapitanText) {
+      const applyElCapitanStyle = (state: ElCapitanState) => {
+        elCapitanText.style.transform = elCapitanStyles[state].transform;
+        elCapitanText.style.opacity = elCapitanStyles[state].opacity;
+      };
+      elCapitanText.style.transition = EL_CAPITAN_TRANSITION;
+      // A re-run setup starts hidden again - the timeline's first render brings it back
+      applyElCapitanStyle(elCapitanMachine.state);
+      elCapitanMachine.subscribe(applyElCapitanStyle);
+    }
 
     const updateTrumpVideo = (progress: number) => {
       if (!trumpVideo) return;
@@ -144,32 +278,24 @@ export default function Home() {
         // Show and scrub through video based on scroll progress
         if (!trumpVideoTriggered) {
           trumpVideoTriggered = true;
-          trumpVideo.style.transition = 'opacity 0.5s ease-out';
-          trumpVideo.style.opacity = '1';
+          trumpSurfaces.forEach((surface) => {
+            surface.style.transition = 'opacity 0.5s ease-out';
+            surface.style.opacity = '1';
+          });
           trumpVideo.style.pointerEvents = 'auto';
         }
-        // Scrub through video based on scroll progress - only if video is loaded
-        if (trumpVideo.readyState >= 2 && trumpVideo.duration && isFinite(trumpVideo.duration)) {
-          // Ensure video is paused (scrubbing, not playing)
-          if (!trumpVideo.paused) {
-            trumpVideo.pause();
-          }
-          const targetTime = progress * trumpVideo.duration;
-          // Only update if there's a meaningful change to avoid jitter
-          if (Math.abs(trumpVideo.currentTime - targetTime) > 0.01) {
-            trumpVideo.currentTime = targetTime;
-          }
-        }
+        // Scrub through video based on scroll progress
+        trumpScrubber?.seek(progress);
       } else {
         // Hide video
         if (trumpVideoTriggered) {
           trumpVideoTriggered = false;
-          trumpVideo.style.transition = 'opacity 0.5s ease-out';
-          trumpVideo.style.opacity = '0';
+          trumpSurfaces.forEach((surface) => {
+            surface.style.transition = 'opacity 0.5s ease-out';
+            surface.style.opacity = '0';
+          });
           trumpVideo.style.pointerEvents = 'none';
-          if (trumpVideo.readyState >= 2) {
-            trumpVideo.currentTime = 0;
-          }
+          trumpScrubber?.seek(0);
         }
       }
     };
@@ -240,158 +366,172 @@ export default function Home() {
       }
 
       // Fade out video as reveal image fades in
-      if (video) {
-        video.style.opacity = exitProgress === 0 ? "1" : (1 - exitProgress).toString();
-      }
+      introSurfaces.forEach((surface) => {
+        surface.style.opacity = exitProgress === 0 ? "1" : (1 - exitProgress).toString();
+      });
+    };
+
+    // Timeline scenes - lengths are in viewport heights, played in order
+    const scenes: TimelineScene[] = [
+      {
+        // Video playback while the Welcome text rises to center
+        // Keeps working without the video - the poster stands in
+        id: "intro",
+        length: 4,
+        refs: [welcomeTextRef],
+        onProgress: (progress) => {
+          introScrubber?.seek(progress);
+          updateTextPosition(progress, 0);
+        },
+      },
+      {
+        // Welcome text exits, dark overlay and reveal image fade in
+        id: "reveal",
+        length: 2,
+        refs: [welcomeTextRef],
+        onProgress: (progress) => {
+          updateTextPosition(1, progress);
+          // Flashlight widens while the image fades in (second half), reaching full size at the end
+          const waveProgress = Math.max(0, (progress - 0.5) * 2);
+          revealWaveRef.current?.setParams({ revealRadius: 0.2 + 0.3 * waveProgress });
+        },
+      },
+      {
+        // EL CAPITAN auto-slides up (triggers quickly) while its letters scrub in
+        id: "el-capitan",
+        length: 1,
+        refs: [elCapitanRef],
+        onEnter: () => elCapitanMachine.send("show"),
+        onProgress: (progress) => elCapitanProgress.set(progress),
+        onExit: (direction) => {
+          if (direction === "backward") elCapitanMachine.send("hide");
+        },
+      },
+      {
+        // EL CAPITAN auto-slides right
+        id: "el-capitan-exit",
+        length: 1,
+        refs: [elCapitanRef],
+        onEnter: () => elCapitanMachine.send("exit"),
+      },
+      {
+        // Trump video scrubs with scroll - skipped while the video is unavailable
+        id: "final-video",
+        length: 4,
+        refs: [trumpVideoRef],
+        onProgress: (progress) => updateTrumpVideo(progress),
+      },
+    ];
+
+    const timeline = createScrollTimeline({
+      scenes,
+      viewportHeight: window.innerHeight,
+      damping: 0.1, // Fraction of the remaining distance eased per frame
+      restThreshold: 0.5, // Snap to rest within half a pixel
+    });
+
+    // Set once the timeline position is mirrored into the URL hash
+    let detachTimelineHash: (() => void) | null = null;
+    let unsubscribePreloader: (() => void) | null = null;
+    let disposed = false;
+    // Input is ignored until setup has rendered the first frame
+    let started = false;
+
+    // The Trump video loads in the background - hook it up once it's in memory,
+    // and skip its scene whenever it failed
+    let finalVideoUrl: string | null = null;
+    const syncFinalVideo = () => {
+      const asset = preloader.getSnapshot().assets.find(({ id }) => id === "final-video");
+      timeline.setSceneSkipped("final-video", !trumpVideo || asset?.status === "error");
+      if (!trumpVideo || !asset?.url || asset.url === finalVideoUrl) return;
+
+      finalVideoUrl = asset.url;
+      trumpScrubber?.dispose();
+      trumpVideo.src = asset.url;
+      trumpVideo.load();
+      // Ensure it starts paused at the beginning
+      trumpVideo.pause();
+      trumpScrubber = createScrubber(trumpVideo, trumpCanvas, scrubBackends.final, 0);
+      // Apply the current position in case a deep link already landed on it
+      timeline.render();
     };
 
     const setup = async () => {
-      // Prevent native scrolling
+      // Prevent native scrolling (and drop any offset left by the static layout)
+      window.scrollTo(0, 0);
       document.body.style.overflow = "hidden";
       document.body.style.height = "100vh";
 
-      // Wait for video to be fully loaded
-      await new Promise<void>((resolve) => {
-        if (video.readyState >= 3) {
-          resolve();
-        } else {
-          video.addEventListener("canplaythrough", () => resolve(), { once: true });
-        }
-      });
+      if (video) {
+        // Wait for video to be fully loaded
+        await new Promise<void>((resolve) => {
+          if (video.readyState >= 3) {
+            resolve();
+          } else {
+            video.addEventListener("canplaythrough", () => resolve(), { once: true });
+            // Decode failures are reported to the preloader by onError - just don't hang
+            video.addEventListener("error", () => resolve(), { once: true });
+          }
+        });
 
-      video.currentTime = startOffset;
+        video.currentTime = startOffset;
 
-      // Brief play/pause to engage decoder
-      try {
-        await video.play();
-        video.pause();
-      } catch (e) { }
+        // Brief play/pause to engage decoder
+        try {
+          await video.play();
+          video.pause();
+        } catch (e) { }
+      }
+
+      if (disposed) return;
 
       setIsReady(true);
-      updateTextPosition(0, 0);
-      updateElCapitanPosition(0);
-
-      // Pre-load Trump video for smooth scrubbing
-      if (trumpVideo) {
-        trumpVideo.load();
-        // Ensure it starts paused at the beginning
-        trumpVideo.pause();
-        trumpVideo.currentTime = 0;
-      }
+
+      syncFinalVideo();
+      unsubscribePreloader = preloader.subscribe(syncFinalVideo);
+      timeline.render();
+      started = true;
+
+      // Deep link: jump to the position in the URL hash, then keep it in sync
+      restoreTimelineHash(timeline);
+      detachTimelineHash = attachTimelineHash(timeline);
+      setRailTimeline(timeline);
     };
 
     // Handle wheel events directly - bypasses momentum scrolling
     const handleWheel = (e: WheelEvent) => {
       e.preventDefault();
 
-      if (!video || video.readyState < 3) return;
-
-      // Ignore trackpad momentum (very small deltaY values are typically momentum)
-      // This makes the video stop immediately when you stop scrolling
-      if (Math.abs(e.deltaY) < 5) return;
-
-      // Update virtual scroll position
-      virtualScroll += e.deltaY;
-      virtualScroll = Math.max(0, Math.min(maxScroll, virtualScroll));
-
-      const videoDuration = video.duration || 8;
-
-      if (virtualScroll <= videoScrollMax) {
-        // Phase 1: Video playback
-        const videoProgress = virtualScroll / videoScrollMax;
-        video.currentTime = startOffset + (videoDuration - startOffset) * videoProgress;
-        updateTextPosition(videoProgress, 0);
-        updateElCapitanPosition(0);
-        updateTrumpVideo(0);
-      } else if (virtualScroll <= videoScrollMax + textExitScrollMax) {
-        // Phase 2: Text continues sliding up off screen
-        // Keep video at the end
-        video.currentTime = videoDuration;
-
-        // Calculate exit progress (0 to 1)
-        const exitProgress = (virtualScroll - videoScrollMax) / textExitScrollMax;
-        updateTextPosition(1, exitProgress);
-        updateElCapitanPosition(0);
-        updateTrumpVideo(0);
-      } else if (virtualScroll <= videoScrollMax + textExitScrollMax + elCapitanSlideUpMax) {
-        // Phase 3: EL CAPITAN auto-slides up
-        video.currentTime = videoDuration;
-        updateTextPosition(1, 1); // Keep Welcome text fully exited
-        updateElCapitanPosition(1); // Trigger slide up animation
-        updateTrumpVideo(0);
-      } else if (virtualScroll <= videoScrollMax + textExitScrollMax + elCapitanSlideUpMax + elCapitanSlideRightMax) {
-        // Phase 4: EL CAPITAN auto-slides right
-        video.currentTime = videoDuration;
-        updateTextPosition(1, 1);
-        updateElCapitanPosition(2); // Trigger slide right animation
-        updateTrumpVideo(0);
-      } else {
-        // Phase 5: Trump video scrubs with scroll
-        video.currentTime = videoDuration;
-        updateTextPosition(1, 1);
-        updateElCapitanPosition(2);
-        const trumpProgress = (virtualScroll - videoScrollMax - textExitScrollMax - elCapitanSlideUpMax - elCapitanSlideRightMax) / trumpVideoFadeMax;
-        updateTrumpVideo(Math.min(1, trumpProgress)); // Progress 0 -> 1
-      }
+      if (!started) return;
+
+      // Line/page based wheels (e.g. Firefox) report deltas in lines, not pixels
+      const deltaScale =
+        e.deltaMode === WheelEvent.DOM_DELTA_LINE ? 16
+          : e.deltaMode === WheelEvent.DOM_DELTA_PAGE ? window.innerHeight
+            : 1;
+
+      // Every delta counts - the timeline eases toward the new target
+      timeline.scrollBy(e.deltaY * deltaScale);
     };
 
     // Handle keyboard navigation
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!video || video.readyState < 3) return;
+      if (!started) return;
 
       const step = window.innerHeight * 0.5; // Half a viewport per key press
 
       if (e.key === "ArrowDown" || e.key === "PageDown") {
         e.preventDefault();
-        virtualScroll = Math.min(maxScroll, virtualScroll + step);
+        timeline.scrollBy(step);
       } else if (e.key === "ArrowUp" || e.key === "PageUp") {
         e.preventDefault();
-        virtualScroll = Math.max(0, virtualScroll - step);
+        timeline.scrollBy(-step);
       } else if (e.key === "Home") {
         e.preventDefault();
-        virtualScroll = 0;
+        timeline.scrollTo(0);
       } else if (e.key === "End") {
         e.preventDefault();
-        virtualScroll = maxScroll;
-      } else {
-        return;
-      }
-
-      const videoDuration = video.duration || 8;
-
-      if (virtualScroll <= videoScrollMax) {
-        // Phase 1: Video playback
-        const videoProgress = virtualScroll / videoScrollMax;
-        video.currentTime = startOffset + (videoDuration - startOffset) * videoProgress;
-        updateTextPosition(videoProgress, 0);
-        updateElCapitanPosition(0);
-        updateTrumpVideo(0);
-      } else if (virtualScroll <= videoScrollMax + textExitScrollMax) {
-        // Phase 2: Text continues sliding up off screen
-        video.currentTime = videoDuration;
-        const exitProgress = (virtualScroll - videoScrollMax) / textExitScrollMax;
-        updateTextPosition(1, exitProgress);
-        updateElCapitanPosition(0);
-        updateTrumpVideo(0);
-      } else if (virtualScroll <= videoScrollMax + textExitScrollMax + elCapitanSlideUpMax) {
-        // Phase 3: EL CAPITAN auto-slides up
-        video.currentTime = videoDuration;
-        updateTextPosition(1, 1);
-        updateElCapitanPosition(1); // Trigger slide up animation
-        updateTrumpVideo(0);
-      } else if (virtualScroll <= videoScrollMax + textExitScrollMax + elCapitanSlideUpMax + elCapitanSlideRightMax) {
-        // Phase 4: EL CAPITAN auto-slides right
-        video.currentTime = videoDuration;
-        updateTextPosition(1, 1);
-        updateElCapitanPosition(2); // Trigger slide right animation
-        updateTrumpVideo(0);
-      } else {
-        // Phase 5: Trump video scrubs with scroll
-        video.currentTime = videoDuration;
-        updateTextPosition(1, 1);
-        updateElCapitanPosition(2);
-        const trumpProgress = (virtualScroll - videoScrollMax - textExitScrollMax - elCapitanSlideUpMax - elCapitanSlideRightMax) / trumpVideoFadeMax;
-        updateTrumpVideo(Math.min(1, trumpProgress)); // Progress 0 -> 1
+        timeline.scrollTo(timeline.maxScroll);
       }
     };
 
@@ -401,22 +541,76 @@ export default function Home() {
     window.addEventListener("wheel", handleWheel, { passive: false });
     window.addEventListener("keydown", handleKeyDown);
 
+    // Recompute phase lengths for the new viewport, keeping the normalized position.
+    // Coalesced to one layout per frame - resize fires continuously while dragging.
+    let resizeFrame: number | null = null;
+    const handleResize = () => {
+      if (resizeFrame !== null) return;
+      resizeFrame = requestAnimationFrame(() => {
+        resizeFrame = null;
+        timeline.resize(window.innerHeight);
+      });
+    };
+
+    window.addEventListener("resize", handleResize);
+    window.addEventListener("orientationchange", handleResize);
+
+    // Touch swipes and pointer drags feed the same virtual scroll
+    const detachDragInput = container
+      ? attachDragInput(container, {
+        onDelta: (delta) => timeline.scrollBy(delta),
+        enabled: () => started,
+      })
+      : null;
+
     return () => {
+      disposed = true;
       document.body.style.overflow = "";
       document.body.style.height = "";
       window.removeEventListener("wheel", handleWheel);
       window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("resize", handleResize);
+      window.removeEventListener("orientationchange", handleResize);
+      if (resizeFrame !== null) cancelAnimationFrame(resizeFrame);
+      detachDragInput?.();
+      detachTimelineHash?.();
+      detachElCapitanTransition?.();
+      elCapitanMachine.destroy();
+      unsubscribePreloader?.();
+      timeline.destroy();
+      introScrubber?.dispose();
+      trumpScrubber?.dispose();
+      setRailTimeline(null);
+      setIsReady(false);
     };
-  }, [basePath]); // Re-run when basePath changes (video becomes available)
+  }, [experienceReady, introVideoUrl, preloader, reducedMotion, elCapitanProgress]); // Re-run when the intro video appears or fails
+
+  if (manifest !== null && reducedMotion) {
+    const source = (id: string) => manifest.find((entry) => entry.id === id)?.source ?? "";
+    return (
+      <>
+        <StaticHome
+          introVideoSrc={source("intro-video")}
+          revealImageSrc={source("reveal-image")}
+          finalVideoSrc={source("final-video")}
+        />
+        <MotionToggle reducedMotion onChange={setReducedMotion} />
+      </>
+    );
+  }
 
   return (
-    <div className="relative h-screen w-screen overflow-hidden bg-black">
-      {/* Loading indicator - shows while basePath is being determined */}
-      {basePath === null && (
-        <div className="absolute inset-0 flex items-center justify-center">
-          <div className="text-white text-xl">Loading...</div>
-        </div>
-      )}
+    <div
+      ref={containerRef}
+      className="relative h-screen w-screen overflow-hidden bg-black select-none"
+      style={{ touchAction: "none" }}
+    >
+      {/* Loading screen - byte progress of the critical assets until setup finishes */}
+      <LoadingScreen
+        preloader={preloader}
+        visible={!isReady}
+        labels={assetLabels}
+      />
 
       {/* 
           VIDEO CROP SETTINGS (FIXED - baked into file):
@@ -428,7 +622,7 @@ export default function Home() {
           
           This crops from top-left corner: width=1884, height=1060, x=0, y=0
       */}
-      {basePath !== null && (
+      {introVideoUrl !== null && (
         <video
           ref={videoRef}
           muted
@@ -440,8 +634,27 @@ export default function Home() {
             willChange: "transform",
             transform: "translateZ(0)",
           }}
-          src={`${basePath}/videos/background-60fps-cropped-optimized.mp4`}
-          onError={() => setIsReady(true)}
+          src={introVideoUrl}
+          onError={() => preloader?.reportError("intro-video")}
+        />
+      )}
+
+      {/* Poster fallback - stands in for the background video when it is missing */}
+      {experienceReady && introVideoUrl === null && introPoster && (
+        <div
+          ref={introPosterRef}
+          className="absolute inset-0 w-full h-full bg-cover bg-center"
+          style={{ backgroundImage: `url(${introPoster})` }}
+          aria-hidden="true"
+        />
+      )}
+
+      {/* Frame-cache surface for the background video ("frames" scrub backend) */}
+      {introVideoUrl !== null && scrubBackends.intro === "frames" && (
+        <canvas
+          ref={introCanvasRef}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          aria-hidden="true"
         />
       )}
 
@@ -490,17 +703,21 @@ export default function Home() {
           pointerEvents: "none",
         }}
       >
-        <RevealWaveImage
-          src="https://images.unsplash.com/photo-1518837695005-2083093ee35b?q=80&w=2070&auto=format&fit=crop"
-          waveSpeed={0.2}
-          waveFrequency={0.7}
-          waveAmplitude={0.5}
-          revealRadius={0.5}
-          revealSoftness={1}
-          pixelSize={2}
-          mouseRadius={0.4}
-          className="w-full h-full"
-        />
+        {revealImageUrl && (
+          <RevealWaveImage
+            ref={revealWaveRef}
+            src={revealImageUrl}
+            active={revealActive}
+            waveSpeed={0.2}
+            waveFrequency={0.7}
+            waveAmplitude={0.5}
+            revealRadius={0.5}
+            revealSoftness={1}
+            pixelSize={2}
+            mouseRadius={0.4}
+            className="w-full h-full"
+          />
+        )}
       </div>
 
       {/* EL CAPITAN Text - Slides up at the bottom of scroll with split text animation */}
@@ -530,11 +747,22 @@ export default function Home() {
             splitType="chars"
             from={{ opacity: 0, y: 50, rotateX: -90 }}
             to={{ opacity: 1, y: 0, rotateX: 0 }}
-            trigger={showElCapitan}
+            progress={elCapitanProgress}
           />
         </h1>
       </div>
 
+      {/* Chapter rail - progress and click-to-jump navigation */}
+      {railTimeline && <TimelineRail timeline={railTimeline} chapters={chapters} />}
+
+      {/* Failed assets with a retry button each */}
+      <AssetErrorNotice preloader={preloader} labels={assetLabels} />
+
+      {/* Reduced motion switch */}
+      {basePath !== null && (
+        <MotionToggle reducedMotion={false} onChange={setReducedMotion} />
+      )}
+
       {/* Trump Video - Scroll-controlled at the very bottom */}
       {basePath !== null && (
         <video
@@ -542,6 +770,8 @@ export default function Home() {
           muted
           playsInline
           preload="auto"
+          poster={finalPoster}
+          onError={() => preloader?.reportError("final-video")}
           className="absolute inset-0 w-full h-full object-cover z-40"
           style={{
             opacity: 0,
@@ -549,7 +779,16 @@ export default function Home() {
             transform: "translateZ(0)",
             pointerEvents: "none",
           }}
-          src={`${basePath}/videos/trump-video-scrub.mp4`}
+        />
+      )}
+
+      {/* Frame-cache surface for the Trump video ("frames" scrub backend) */}
+      {basePath !== null && scrubBackends.final === "frames" && (
+        <canvas
+          ref={trumpCanvasRef}
+          className="absolute inset-0 w-full h-full z-40 pointer-events-none"
+          style={{ opacity: 0 }}
+          aria-hidden="true"
         />
       )}
     </div>
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { RevealWaveImage } from "@/components/ui/reveal-wave-image";
+import SplitText from "@/components/ui/split-text";
+
+/* =========================================================
+   StaticHome Component
+   - Reduced-motion version of the Home timeline.
+   - Natively scrolling sections instead of scroll-jacking.
+   - Videos show a poster frame and only play on request.
+   - Sections crossfade in as they enter the viewport.
+   - Section ids match the timeline scene ids, so deep links
+     like #el-capitan still land on the right content.
+   ========================================================= */
+
+// Tracks whether an element is at least `threshold` visible
+function useIsVisible<T extends Element>(threshold: number) {
+    const ref = useRef<T>(null);
+    const [isVisible, setIsVisible] = useState(false);
+
+    useEffect(() => {
+        const element = ref.current;
+        if (!element) return;
+
+        const observer = new IntersectionObserver(
+            ([entry]) => setIsVisible(entry.isIntersecting),
+            { threshold },
+        );
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [threshold]);
+
+    return [ref, isVisible] as const;
+}
+
+interface FadeSectionProps {
+    id: string;
+    children: ReactNode;
+    className?: string;
+}
+
+const FadeSection = ({ id, children, className = "" }: FadeSectionProps) => {
+    const [ref, isVisible] = useIsVisible<HTMLElement>(0.25);
+
+    return (
+        <section
+            ref={ref}
+            id={id}
+            className={`relative flex min-h-screen w-full items-center justify-center overflow-hidden transition-opacity duration-700 ease-out ${isVisible ? "opacity-100" : "opacity-0"
+                } ${className}`}
+        >
+            {children}
+        </section>
+    );
+};
+
+const headingStyle = {
+    textShadow: "0 4px 30px rgba(0, 0, 0, 0.5), 0 0 80px rgba(0, 0, 0, 0.3)",
+    fontFamily: "var(--font-fraunces), serif",
+};
+
+// EL CAPITAN fades in letter by letter without any movement
+const ElCapitanSection = () => {
+    const [ref, isVisible] = useIsVisible<HTMLDivElement>(0.5);
+
+    return (
+        <FadeSection id="el-capitan">
+            <div ref={ref}>
+                <h1
+                    className="font-bold tracking-wider whitespace-nowrap"
+                    style={{
+                        ...headingStyle,
+                        fontSize: "clamp(4rem, 15vw, 12rem)",
+                        letterSpacing: "0.15em",
+                    }}
+                >
+                    <SplitText
+                        text="EL CAPITAN"
+                        delay={60}
+                        duration={0.6}
+                        ease="easeOut"
+                        splitType="chars"
+                        from={{ opacity: 0 }}
+                        to={{ opacity: 1 }}
+                        trigger={isVisible}
+                    />
+                </h1>
+            </div>
+        </FadeSection>
+    );
+};
+
+interface StaticHomeProps {
+    introVideoSrc: string;
+    revealImageSrc: string;
+    finalVideoSrc: string;
+}
+
+export const StaticHome = ({
+    introVideoSrc,
+    revealImageSrc,
+    finalVideoSrc,
+}: StaticHomeProps) => {
+    return (
+        <main className="bg-black text-white">
+            <FadeSection id="intro">
+                {/* Media fragment shows a poster frame without autoplaying - controls start it */}
+                <video
+                    muted
+                    playsInline
+                    controls
+                    preload="metadata"
+                    className="absolute inset-0 h-full w-full object-cover"
+                    src={`${introVideoSrc}#t=0.1`}
+                    aria-label="Intro video"
+                />
+                <h1
+                    className="relative z-10 font-bold tracking-wider"
+                    style={{
+                        ...headingStyle,
+                        fontSize: "clamp(3rem, 10vw, 8rem)",
+                        letterSpacing: "0.02em",
+                    }}
+                >
+                    Welcome
+                </h1>
+            </FadeSection>
+
+            <FadeSection id="reveal" className="h-screen">
+                <RevealWaveImage
+                    src={revealImageSrc}
+                    revealRadius={0.5}
+                    revealSoftness={1}
+                    pixelSize={2}
+                    distortion={false}
+                    className="absolute inset-0 h-full w-full"
+                />
+            </FadeSection>
+
+            <ElCapitanSection />
+
+            <FadeSection id="final-video">
+                <video
+                    muted
+                    playsInline
+                    controls
+                    preload="metadata"
+                    className="h-full max-h-screen w-full object-contain"
+                    src={`${finalVideoSrc}#t=0.1`}
+                />
+            </FadeSection>
+        </main>
+    );
+};
@@ -0,0 +1,53 @@
+"use client";
+
+import type { AssetPreloader } from "@/lib/asset-preloader";
+import { usePreloaderSnapshot } from "@/hooks/use-asset-preloader";
+
+/* =========================================================
+   AssetErrorNotice Component
+   - Lists assets that failed to load, with a retry button each.
+   - Renders nothing while every asset is fine.
+   - Subscribes to the preloader itself, so progress updates
+     re-render only this notice.
+   ========================================================= */
+
+interface AssetErrorNoticeProps {
+    preloader: AssetPreloader | null;
+    /** Display names per asset id - falls back to the id */
+    labels?: Record<string, string>;
+    className?: string;
+}
+
+export const AssetErrorNotice = ({
+    preloader,
+    labels = {},
+    className = "",
+}: AssetErrorNoticeProps) => {
+    const snapshot = usePreloaderSnapshot(preloader);
+    if (!preloader || !snapshot) return null;
+    const failed = snapshot.assets.filter((asset) => asset.status === "error");
+
+    return (
+        <div
+            role="status"
+            aria-live="polite"
+            className={`fixed bottom-6 right-6 z-[55] flex flex-col items-end gap-2 ${className}`}
+        >
+            {failed.map((asset) => (
+                <div
+                    key={asset.id}
+                    className="flex items-center gap-3 rounded-full border border-white/30 bg-black/60 py-1.5 pl-4 pr-1.5 text-xs uppercase tracking-widest text-white backdrop-blur"
+                >
+                    <span>{labels[asset.id] ?? asset.id} unavailable</span>
+                    <button
+                        type="button"
+                        onClick={() => preloader.retry(asset.id)}
+                        className="rounded-full bg-white px-3 py-1 text-black outline-none focus-visible:ring-2 focus-visible:ring-white/80"
+                    >
+                        Retry
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+};
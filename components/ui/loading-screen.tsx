@@ -0,0 +1,80 @@
+"use client";
+
+import type { AssetPreloader } from "@/lib/asset-preloader";
+import { usePreloaderSnapshot } from "@/hooks/use-asset-preloader";
+
+/* =========================================================
+   LoadingScreen Component
+   - Aggregate progress bar for the critical assets.
+   - One row per asset with its own byte progress.
+   - Fades out once `visible` turns false.
+   - Subscribes to the preloader itself, so progress updates
+     re-render only this screen.
+   ========================================================= */
+
+interface LoadingScreenProps {
+    preloader: AssetPreloader | null;
+    visible: boolean;
+    /** Display names per asset id - falls back to the id */
+    labels?: Record<string, string>;
+}
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const LoadingScreen = ({
+    preloader,
+    visible,
+    labels = {},
+}: LoadingScreenProps) => {
+    const snapshot = usePreloaderSnapshot(preloader);
+    const assets = snapshot?.assets ?? [];
+    const percent = Math.round((snapshot?.criticalProgress ?? 0) * 100);
+
+    return (
+        <div
+            className={`fixed inset-0 z-[60] flex items-center justify-center bg-black text-white transition-opacity duration-700 ${visible ? "opacity-100" : "pointer-events-none opacity-0"
+                }`}
+            aria-hidden={!visible}
+        >
+            <div className="w-72">
+                <div
+                    role="progressbar"
+                    aria-label="Loading"
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={percent}
+                    className="mb-2 h-px w-full bg-white/20"
+                >
+                    <div
+                        className="h-full bg-white transition-[width] duration-200"
+                        style={{ width: `${percent}%` }}
+                    />
+                </div>
+                <div className="mb-6 text-right text-xs tabular-nums tracking-widest">{percent}%</div>
+
+                <ul className="space-y-1 text-[11px] uppercase tracking-widest text-white/60">
+                    {assets.map((asset) => (
+                        <li key={asset.id} className="flex justify-between gap-4">
+                            <span>
+                                {labels[asset.id] ?? asset.id}
+                                {!asset.critical && " (background)"}
+                            </span>
+                            <span className="tabular-nums">
+                                {asset.status === "loaded"
+                                    ? "Done"
+                                    : asset.status === "error"
+                                        ? "Failed"
+                                        : asset.kind === "font"
+                                            ? "…"
+                                            : `${formatBytes(asset.loadedBytes)} / ${formatBytes(asset.totalBytes)}`}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,41 @@
+"use client";
+
+/* =========================================================
+   MotionToggle Component
+   - Small switch for the reduced-motion preference.
+   - Works with useMotionPreference; the state lives there.
+   ========================================================= */
+
+interface MotionToggleProps {
+    reducedMotion: boolean;
+    onChange: (reducedMotion: boolean) => void;
+    className?: string;
+}
+
+export const MotionToggle = ({
+    reducedMotion,
+    onChange,
+    className = "",
+}: MotionToggleProps) => {
+    return (
+        <button
+            type="button"
+            role="switch"
+            aria-checked={reducedMotion}
+            onClick={() => onChange(!reducedMotion)}
+            className={`fixed bottom-6 left-6 z-50 flex items-center gap-2 rounded-full border border-white/30 bg-black/60 px-4 py-2 text-xs uppercase tracking-widest text-white backdrop-blur outline-none focus-visible:ring-2 focus-visible:ring-white/80 ${className}`}
+        >
+            <span
+                aria-hidden="true"
+                className={`relative h-3 w-6 rounded-full transition-colors ${reducedMotion ? "bg-white" : "bg-white/30"
+                    }`}
+            >
+                <span
+                    className={`absolute top-0.5 h-2 w-2 rounded-full bg-black transition-[left] ${reducedMotion ? "left-3.5" : "left-0.5"
+                        }`}
+                />
+            </span>
+            Reduce motion
+        </button>
+    );
+};
@@ -0,0 +1,337 @@
+import type { IUniform } from "three";
+
+/* =========================================================
+   RevealWaveImage Effect Passes
+   - The fragment shader is assembled from passes, grouped
+     into stages that run in this order:
+       distortion  moves `distortedUv` (texture lookup UV)
+       color       turns `effectColor` into the stylized look
+       reveal      raises `revealAmount` (0 -> 1) where the
+                   original `color` shows through
+       output      post-processes `finalColor`
+   - Within a stage, passes run in array order. Each pass
+     body gets its own block scope.
+   - Passes can declare uniforms and helper functions; their
+     uniform objects are shared with the material, so
+     changing `pass.uniforms.x.value` updates it live.
+     Uniform names must be unique across the chain.
+   - Core uniforms (time, pointers, palette, ripples and the
+     numeric component parameters) are always declared.
+   ========================================================= */
+
+export type RevealEffectStage = "distortion" | "color" | "reveal" | "output";
+
+export interface RevealEffect {
+    /** Identifies the pass in the generated shader */
+    name: string;
+    stage: RevealEffectStage;
+    /** GLSL uniforms and helper functions, placed before main() */
+    declarations?: string;
+    /** GLSL statements run inside main() */
+    body: string;
+    uniforms?: Record<string, IUniform>;
+}
+
+// Upper bound on palette stops - uniform arrays need a fixed size
+export const MAX_PALETTE_SIZE = 16;
+// Simultaneous reveal points (touches/pointers) the shader handles
+export const MAX_REVEAL_POINTS = 4;
+// Ring buffer size in the shader - maxRipples is clamped to it
+export const MAX_RIPPLES = 16;
+
+const STAGES: RevealEffectStage[] = ["distortion", "color", "reveal", "output"];
+
+const coreDeclarations = `
+  precision highp float;
+
+  uniform sampler2D uTexture;
+  uniform float uTime;
+  uniform vec2 uPoints[${MAX_REVEAL_POINTS}];
+  uniform float uPointActive[${MAX_REVEAL_POINTS}];
+  uniform float uRevealRadius;
+  uniform float uRevealSoftness;
+  uniform float uPixelSize;
+
+  uniform float uWaveSpeed;
+  uniform float uWaveFrequency;
+  uniform float uWaveAmplitude;
+  uniform float uMouseRadius;
+
+  uniform float uLevels;
+  uniform vec3 uPalette[${MAX_PALETTE_SIZE}];
+  uniform float uPaletteSize;
+  uniform float uMatrixSize;
+  uniform sampler2D uBlueNoise;
+  uniform float uBlueNoiseSize;
+
+  // Ripple rings: xy = origin (uv), z = spawn time, w = strength
+  uniform vec4 uRipples[${MAX_RIPPLES}];
+  uniform float uRippleCount;
+  uniform float uRippleLifetime;
+  uniform float uRippleStrength;
+
+  varying vec2 vUv;
+
+  float luma(vec3 rgb) {
+    return dot(rgb, vec3(0.299, 0.587, 0.114));
+  }
+
+  // Linear ramp through the palette stops (t: 0 -> 1)
+  vec3 samplePalette(float t) {
+    float scaled = t * (uPaletteSize - 1.0);
+    vec3 result = uPalette[0];
+    for (int i = 0; i < ${MAX_PALETTE_SIZE - 1}; i++) {
+        if (float(i) >= uPaletteSize - 1.0) break;
+        result = mix(result, uPalette[i + 1], clamp(scaled - float(i), 0.0, 1.0));
+    }
+    return result;
+  }
+`;
+
+export const vertexShader = `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+export function composeFragmentShader(effects: RevealEffect[]): string {
+    const stage = (name: RevealEffectStage) =>
+        effects
+            .filter((effect) => effect.stage === name)
+            .map((effect) => `    // ${effect.name}\n    {\n${effect.body.replace(/^\n/, "")}\n    }`)
+            .join("\n");
+
+    const [distortion, color, reveal, output] = STAGES.map(stage);
+
+    return `${coreDeclarations}
+${effects.map((effect) => effect.declarations ?? "").join("\n")}
+
+  void main() {
+    vec2 uv = vUv;
+    float time = uTime;
+
+    vec2 distortedUv = uv;
+${distortion}
+
+    vec4 color = texture2D(uTexture, distortedUv);
+    vec2 pixelCoord = floor(gl_FragCoord.xy / uPixelSize);
+    vec3 effectColor = color.rgb;
+${color}
+
+    float revealAmount = 0.0;
+${reveal}
+
+    vec3 finalColor = mix(effectColor, color.rgb, revealAmount);
+${output}
+
+    gl_FragColor = vec4(finalColor, color.a);
+  }
+`;
+}
+
+/* ---------- Built-in passes ---------- */
+
+/** Continuous sine waves across the whole image */
+export const waveDistortion = (): RevealEffect => ({
+    name: "wave-distortion",
+    stage: "distortion",
+    body: `
+    float waveStrength = uWaveAmplitude * 0.1;
+    float wave1 = sin(uv.y * uWaveFrequency + time * uWaveSpeed) * waveStrength;
+    float wave2 = sin(uv.x * uWaveFrequency * 0.7 + time * uWaveSpeed * 0.8) * waveStrength * 0.5;
+    distortedUv.x += wave1;
+    distortedUv.y += wave2;`,
+});
+
+/** Ripples centered on each active pointer */
+export const pointerRipples = (): RevealEffect => ({
+    name: "pointer-ripples",
+    stage: "distortion",
+    body: `
+    float rippleFreq = uWaveFrequency * 5.0;
+    float rippleSpeed = uWaveSpeed * 1.0;
+    float rippleStrength = uWaveAmplitude * 0.05;
+    for (int i = 0; i < ${MAX_REVEAL_POINTS}; i++) {
+        // "active" is a reserved word in GLSL ES 3.00
+        float pointActive = uPointActive[i];
+        if (pointActive < 0.01) continue;
+
+        float dist = distance(uv, uPoints[i]);
+        float mouseInfluence = smoothstep(uMouseRadius, 0.0, dist);
+
+        float ripple = sin(dist * rippleFreq - time * rippleSpeed) * rippleStrength * mouseInfluence * pointActive;
+        distortedUv.x += ripple;
+        distortedUv.y += ripple;
+    }`,
+});
+
+/** Rings spawned by clicks and fast moves, travelling outward and fading */
+export const spawnedRipples = (): RevealEffect => ({
+    name: "spawned-ripples",
+    stage: "distortion",
+    body: `
+    for (int i = 0; i < ${MAX_RIPPLES}; i++) {
+        if (float(i) >= uRippleCount) break;
+        vec4 spawned = uRipples[i];
+        float age = time - spawned.z;
+        if (age < 0.0 || age > uRippleLifetime || spawned.w <= 0.0) continue;
+
+        float life = 1.0 - age / uRippleLifetime;
+        float offset = distance(uv, spawned.xy) - age * 0.3;
+        float ring = exp(-offset * offset / 0.002);
+        vec2 direction = normalize(uv - spawned.xy + 0.0001);
+
+        float wave = sin(offset * 80.0) * ring * life * life * spawned.w;
+        distortedUv += direction * wave * uRippleStrength * 0.015;
+    }`,
+});
+
+/** Ordered (Bayer) or blue-noise dithering onto the palette - driven by the dither props */
+export const ditherColor = (): RevealEffect => ({
+    name: "dither",
+    stage: "color",
+    declarations: `
+  // Bayer 2x2 dithering pattern
+  float bayer2x2(vec2 pos) {
+    vec2 p = mod(floor(pos), 2.0);
+    return (p.x * 2.0 + p.y * 3.0 - 4.0 * p.x * p.y) / 4.0;
+  }
+
+  // Bayer 4x4 dithering pattern
+  float bayer4x4(vec2 pos) {
+    int x = int(mod(pos.x, 4.0));
+    int y = int(mod(pos.y, 4.0));
+    int index = x + y * 4;
+
+    float pattern[16];
+    pattern[0] = 0.0;    pattern[1] = 8.0;    pattern[2] = 2.0;    pattern[3] = 10.0;
+    pattern[4] = 12.0;   pattern[5] = 4.0;    pattern[6] = 14.0;   pattern[7] = 6.0;
+    pattern[8] = 3.0;    pattern[9] = 11.0;   pattern[10] = 1.0;   pattern[11] = 9.0;
+    pattern[12] = 15.0;  pattern[13] = 7.0;   pattern[14] = 13.0;  pattern[15] = 5.0;
+
+    for (int i = 0; i < 16; i++) {
+        if (i == index) return pattern[i] / 16.0;
+    }
+    return 0.0;
+  }
+
+  // Bayer 8x8, built recursively from the 4x4 and 2x2 patterns
+  float bayer8x8(vec2 pos) {
+    return bayer4x4(pos) + bayer2x2(floor(pos / 4.0)) / 16.0;
+  }
+
+  float ditherThreshold(vec2 pos) {
+    if (uMatrixSize < 1.0) {
+      // Blue noise tiles without visible structure
+      vec2 noiseUv = (mod(pos, uBlueNoiseSize) + 0.5) / uBlueNoiseSize;
+      return texture2D(uBlueNoise, noiseUv).r;
+    }
+    if (uMatrixSize < 3.0) return bayer2x2(pos);
+    if (uMatrixSize < 6.0) return bayer4x4(pos);
+    return bayer8x8(pos);
+  }`,
+    body: `
+    float gray = luma(effectColor);
+    float dither = ditherThreshold(pixelCoord);
+
+    // N-level quantization - the dither spreads over one level step
+    float steps = uLevels - 1.0;
+    float adjusted = gray + (dither - 0.5) / steps;
+    float quantized = clamp(floor(adjusted * uLevels), 0.0, steps) / steps;
+    effectColor = samplePalette(quantized);`,
+});
+
+/** Soft circle of original color around each active pointer */
+export const flashlightReveal = (): RevealEffect => ({
+    name: "flashlight-reveal",
+    stage: "reveal",
+    body: `
+    // Overlapping points take the strongest reveal
+    float innerRadius = uRevealRadius * (1.0 - uRevealSoftness);
+    float outerRadius = uRevealRadius;
+    for (int i = 0; i < ${MAX_REVEAL_POINTS}; i++) {
+        float revealDist = distance(uv, uPoints[i]);
+        float pointReveal = 1.0 - smoothstep(innerRadius, outerRadius, revealDist);
+        revealAmount = max(revealAmount, pointReveal * uPointActive[i]);
+    }`,
+});
+
+/** The stock chain: waves, pointer and spawned ripples, dithering, flashlight reveal */
+export const defaultRevealEffects: RevealEffect[] = [
+    waveDistortion(),
+    pointerRipples(),
+    spawnedRipples(),
+    ditherColor(),
+    flashlightReveal(),
+];
+
+/* ---------- Optional passes ---------- */
+
+/**
+ * Splits red and blue channels outward from the center.
+ * Add it before the dither pass so the stylized and revealed colors both show it.
+ */
+export const chromaticAberration = ({ amount = 0.01 }: { amount?: number } = {}): RevealEffect => ({
+    name: "chromatic-aberration",
+    stage: "color",
+    declarations: `
+  uniform float uAberrationAmount;`,
+    body: `
+    vec2 offset = (distortedUv - 0.5) * uAberrationAmount;
+    color.r = texture2D(uTexture, distortedUv + offset).r;
+    color.b = texture2D(uTexture, distortedUv - offset).b;
+    effectColor = color.rgb;`,
+    uniforms: { uAberrationAmount: { value: amount } },
+});
+
+/** Darkened horizontal lines over the final image (spacing in device pixels) */
+export const scanlines = ({
+    spacing = 3,
+    intensity = 0.25,
+}: { spacing?: number; intensity?: number } = {}): RevealEffect => ({
+    name: "scanlines",
+    stage: "output",
+    declarations: `
+  uniform float uScanlineSpacing;
+  uniform float uScanlineIntensity;`,
+    body: `
+    float line = step(0.5, fract(gl_FragCoord.y / uScanlineSpacing));
+    finalColor *= 1.0 - uScanlineIntensity * line;`,
+    uniforms: {
+        uScanlineSpacing: { value: spacing },
+        uScanlineIntensity: { value: intensity },
+    },
+});
+
+/**
+ * Rotated dot screen mapped onto the palette - use in place of the dither pass.
+ * Cell size is in device pixels, angle in radians.
+ */
+export const halftone = ({
+    cellSize = 8,
+    angle = Math.PI / 4,
+}: { cellSize?: number; angle?: number } = {}): RevealEffect => ({
+    name: "halftone",
+    stage: "color",
+    declarations: `
+  uniform float uHalftoneCell;
+  uniform float uHalftoneAngle;`,
+    body: `
+    float s = sin(uHalftoneAngle);
+    float c = cos(uHalftoneAngle);
+    vec2 rotated = mat2(c, -s, s, c) * gl_FragCoord.xy;
+    vec2 cell = fract(rotated / uHalftoneCell) - 0.5;
+
+    // Darker areas get bigger dots - fully dark cells are covered edge to edge
+    float radius = sqrt(1.0 - luma(effectColor)) * 0.7071;
+    float edge = 1.5 / uHalftoneCell;
+    float ink = 1.0 - smoothstep(radius - edge, radius + edge, length(cell));
+    effectColor = samplePalette(1.0 - ink);`,
+    uniforms: {
+        uHalftoneCell: { value: cellSize },
+        uHalftoneAngle: { value: angle },
+    },
+});
@@ -0,0 +1,92 @@
+"use client";
+
+import * as THREE from "three";
+import { useId } from "react";
+
+/* =========================================================
+   RevealWaveFallback Component
+   - Static stand-in for RevealWaveImage when WebGL is
+     unavailable or its context has been lost.
+   - An SVG filter approximates the shader: grayscale,
+     quantized to the same number of levels, then mapped
+     onto the same palette. No dither pattern or reveal.
+   - Crops like the WebGL version (object-fit and position).
+   ========================================================= */
+
+interface RevealWaveFallbackProps {
+    src: string;
+    kind: "image" | "video";
+    ditherLevels: number;
+    ditherPalette: string[];
+    fit: "cover" | "contain";
+    /** CSS object-position value */
+    objectPosition: string;
+}
+
+export const RevealWaveFallback = ({
+    src,
+    kind,
+    ditherLevels,
+    ditherPalette,
+    fit,
+    objectPosition,
+}: RevealWaveFallbackProps) => {
+    // useId output contains characters that are awkward inside url(#...)
+    const filterId = `reveal-wave-fallback-${useId().replace(/[^\w-]/g, "")}`;
+
+    // Discrete transfer splits 0 -> 1 into equal bands, like floor(gray * levels) in the shader
+    const levels = Math.max(2, Math.round(ditherLevels));
+    const steps = Array.from({ length: levels }, (_, i) => (i / (levels - 1)).toFixed(3)).join(" ");
+
+    // Same sRGB conversion as the shader palette
+    const stops = ditherPalette.map((value) => new THREE.Color(value).convertLinearToSRGB());
+    const channel = (key: "r" | "g" | "b") => stops.map((color) => color[key].toFixed(3)).join(" ");
+
+    const filter = `url(#${filterId})`;
+
+    return (
+        <div className="absolute inset-0">
+            <svg aria-hidden="true" className="absolute h-0 w-0">
+                <filter id={filterId} colorInterpolationFilters="sRGB">
+                    {/* Grayscale with the shader's luma weights */}
+                    <feColorMatrix
+                        type="matrix"
+                        values="0.299 0.587 0.114 0 0  0.299 0.587 0.114 0 0  0.299 0.587 0.114 0 0  0 0 0 1 0"
+                    />
+                    <feComponentTransfer>
+                        <feFuncR type="discrete" tableValues={steps} />
+                        <feFuncG type="discrete" tableValues={steps} />
+                        <feFuncB type="discrete" tableValues={steps} />
+                    </feComponentTransfer>
+                    <feComponentTransfer>
+                        <feFuncR type="table" tableValues={channel("r")} />
+                        <feFuncG type="table" tableValues={channel("g")} />
+                        <feFuncB type="table" tableValues={channel("b")} />
+                    </feComponentTransfer>
+                </filter>
+            </svg>
+
+            {kind === "video" ? (
+                <video
+                    src={src}
+                    autoPlay
+                    muted
+                    loop
+                    playsInline
+                    className="block h-full w-full"
+                    style={{ filter, objectFit: fit, objectPosition }}
+                />
+            ) : (
+                <div
+                    className="h-full w-full bg-no-repeat"
+                    style={{
+                        backgroundImage: `url(${src})`,
+                        backgroundSize: fit,
+                        backgroundPosition: objectPosition,
+                        filter,
+                    }}
+                />
+            )}
+        </div>
+    );
+};
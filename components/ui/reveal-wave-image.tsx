@@ -2,132 +2,110 @@
 
 import * as THREE from "three";
 import { Canvas, useFrame, useThree } from "@react-three/fiber";
-import { useTexture } from "@react-three/drei";
-import { useMemo, useRef, useState, useEffect } from "react";
+import {
+    useMemo,
+    useRef,
+    useState,
+    useEffect,
+    forwardRef,
+    useImperativeHandle,
+    useSyncExternalStore,
+    type PointerEvent as ReactPointerEvent,
+    type RefObject,
+} from "react";
+import { BLUE_NOISE_SIZE, getBlueNoise } from "@/lib/blue-noise-data";
+import { isWebGLAvailable } from "@/lib/webgl";
+import { RevealWaveFallback } from "@/components/ui/reveal-wave-fallback";
+import {
+    composeFragmentShader,
+    defaultRevealEffects,
+    vertexShader,
+    MAX_PALETTE_SIZE,
+    MAX_REVEAL_POINTS,
+    MAX_RIPPLES,
+    type RevealEffect,
+} from "@/components/ui/reveal-wave-effects";
 
 /* =========================================================
    RevealWaveImage Component (Optimized)
-   - B&W 2-level dithering by default.
+   - 3-level grayscale dithering by default.
+   - Configurable quantization: level count, palette (duotone
+     or any color ramp), Bayer matrix size or blue noise.
    - Animated continuous waves.
-   - Mouse-interactive flashlight reveal of original color.
-   - Mouse-interactive water ripples.
-   - Smooth fading when mouse enters/leaves.
-   - Uses CSS object-fit: cover for standard responsive sizing.
+   - Flashlight reveal of original color and water ripples
+     under every active pointer: mouse or pen hover, and
+     touch-and-hold / drag (up to 4 at once).
+   - Each reveal point fades in/out on its own.
+   - Clicks/taps and fast pointer moves spawn ripple rings
+     that travel outward and decay (fixed-size ring buffer).
+   - Touch needs touch-action: none on an ancestor, or the
+     browser takes over the gesture and cancels the reveal.
+   - Source: image URL, video URL, an existing <video> or a
+     <canvas>. Video and canvas textures update every frame.
+   - Sized like CSS object-fit (cover by default, or contain),
+     aligned by objectPosition or a focal point; pointer
+     mapping follows the same layout.
+   - distortion={false} turns off waves and ripples (reduced motion).
+   - Without WebGL, or while the context is lost, URL sources
+     show a filtered static fallback. A restored context
+     remounts the canvas, rebuilding texture and material.
+   - Renders only while active, on screen and in a visible
+     tab; uTime is accumulated per frame so waves resume
+     where they paused instead of jumping.
+   - The shader is composed from effect passes (see
+     reveal-wave-effects.ts); `effects` adds, removes or
+     replaces passes.
+   - Uniforms are created once and updated in place; numeric
+     parameters can also be set (and tweened) through the ref.
    ========================================================= */
 
-const vertexShader = `
-  varying vec2 vUv;
-  
-  void main() {
-    vUv = uv;
-    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
-  }
-`;
-
-const fragmentShader = `
-  precision highp float;
-  
-  uniform sampler2D uTexture;
-  uniform float uTime;
-  uniform vec2 uMouse;
-  uniform float uRevealRadius;
-  uniform float uRevealSoftness;
-  uniform float uPixelSize;
-  uniform float uMouseActive;
-  
-  uniform float uWaveSpeed;
-  uniform float uWaveFrequency;
-  uniform float uWaveAmplitude;
-  uniform float uMouseRadius;
-  
-  varying vec2 vUv;
-  
-  // Bayer 4x4 dithering pattern
-  float bayer4x4(vec2 pos) {
-    int x = int(mod(pos.x, 4.0));
-    int y = int(mod(pos.y, 4.0));
-    int index = x + y * 4;
-    
-    float pattern[16];
-    pattern[0] = 0.0;    pattern[1] = 8.0;    pattern[2] = 2.0;    pattern[3] = 10.0;
-    pattern[4] = 12.0;   pattern[5] = 4.0;    pattern[6] = 14.0;   pattern[7] = 6.0;
-    pattern[8] = 3.0;    pattern[9] = 11.0;   pattern[10] = 1.0;   pattern[11] = 9.0;
-    pattern[12] = 15.0;  pattern[13] = 7.0;   pattern[14] = 13.0;  pattern[15] = 5.0;
-    
-    for (int i = 0; i < 16; i++) {
-        if (i == index) return pattern[i] / 16.0;
-    }
-    return 0.0;
-  }
-  
-  void main() {
-    vec2 uv = vUv;
-    
-    // Wave and Ripple Distortions
-    float time = uTime;
-    float waveStrength = uWaveAmplitude * 0.1;
-    
-    // Continuous waves
-    float wave1 = sin(uv.y * uWaveFrequency + time * uWaveSpeed) * waveStrength;
-    float wave2 = sin(uv.x * uWaveFrequency * 0.7 + time * uWaveSpeed * 0.8) * waveStrength * 0.5;
-    
-    vec2 distortedUv = uv;
-    distortedUv.x += wave1;
-    distortedUv.y += wave2;
-    
-    // Mouse interaction (Ripple)
-    if (uMouseActive > 0.01) {
-        vec2 mousePos = uMouse;
-        float dist = distance(uv, mousePos);
-        float mouseInfluence = smoothstep(uMouseRadius, 0.0, dist);
-        
-        float rippleFreq = uWaveFrequency * 5.0;
-        float rippleSpeed = uWaveSpeed * 1.0;
-        float rippleStrength = uWaveAmplitude * 0.05;
-        
-        float ripple = sin(dist * rippleFreq - time * rippleSpeed) * rippleStrength * mouseInfluence * uMouseActive;
-        distortedUv.x += ripple;
-        distortedUv.y += ripple;
-    }
-    
-    // Sampling and Color Logic
-    vec4 color = texture2D(uTexture, distortedUv);
-    
-    // Grayscale conversion
-    float gray = dot(color.rgb, vec3(0.299, 0.587, 0.114));
-    
-    // Dithering
-    vec2 pixelCoord = floor(gl_FragCoord.xy / uPixelSize);
-    float dither = bayer4x4(pixelCoord);
-    
-    // 2-level quantization
-    float quantized;
-    float adjusted = gray + (dither - 0.5) * 0.5;
-    if (adjusted < 0.33) {
-        quantized = 0.0;
-    } else if (adjusted < 0.66) {
-        quantized = 0.5;
-    } else {
-        quantized = 1.0;
-    }
-    vec3 bwColor = vec3(quantized);
-    
-    // Reveal Flashlight
-    float revealDist = distance(uv, uMouse);
-    float innerRadius = uRevealRadius * (1.0 - uRevealSoftness);
-    float outerRadius = uRevealRadius;
-    float revealAmount = 1.0 - smoothstep(innerRadius, outerRadius, revealDist);
-    revealAmount *= uMouseActive;
-    
-    vec3 finalColor = mix(bwColor, color.rgb, revealAmount);
-    
-    gl_FragColor = vec4(finalColor, color.a);
-  }
-`;
+export type DitherMatrix = 2 | 4 | 8 | "blue-noise";
+export type RevealSource = string | HTMLVideoElement | HTMLCanvasElement;
+export type RevealSourceType = "image" | "video";
+
+// URL sources with these extensions load as video unless sourceType says otherwise
+const VIDEO_EXTENSIONS = /\.(mp4|webm|ogv|mov|m4v)(?:[?#]|$)/i;
+
+const resolveSourceType = (url: string, sourceType?: RevealSourceType): RevealSourceType =>
+    sourceType ?? (VIDEO_EXTENSIONS.test(url) ? "video" : "image");
+
+// WebGL support never changes during a page view
+const subscribeNever = () => () => { };
+
+const subscribeVisibility = (listener: () => void) => {
+    document.addEventListener("visibilitychange", listener);
+    return () => document.removeEventListener("visibilitychange", listener);
+};
+
+// Longest step uTime takes per frame - the first frame after a pause would otherwise cover the whole pause
+const MAX_FRAME_DELTA = 0.1;
+
+// Pointer speed (container sizes per second) that spawns trail ripples
+const FAST_MOVE_SPEED = 1.5;
+// Minimum distance between trail ripples (fraction of the container)
+const RIPPLE_SPACING = 0.06;
+
+// Duotone black -> white, also used when an empty palette is passed
+const DEFAULT_DITHER_PALETTE = ["#000000", "#ffffff"];
 
 interface ImagePlaneProps {
-    src: string;
-    aspectRatio: number;
+    src: RevealSource;
+    sourceType?: RevealSourceType;
+    params: RevealParamsStore;
+    distortion: boolean;
+    ditherLevels: number;
+    ditherPalette: string[];
+    ditherMatrix: DitherMatrix;
+    maxRipples: number;
+    effects: RevealEffect[];
+    fit: RevealFit;
+    placement: Placement;
+    pointers: RefObject<Map<number, RevealPointer>>;
+    ripples: RefObject<RevealRipple[]>;
+}
+
+/** Numeric parameters that can change without rebuilding the material */
+export interface RevealParams {
     revealRadius: number;
     revealSoftness: number;
     pixelSize: number;
@@ -135,121 +113,449 @@ interface ImagePlaneProps {
     waveFrequency: number;
     waveAmplitude: number;
     mouseRadius: number;
-    isMouseInCanvas: boolean;
+    rippleLifetime: number;
+    rippleStrength: number;
+}
+
+export interface RevealTweenOptions {
+    /** Seconds - 0 applies the values immediately */
+    duration?: number;
+    /** Maps linear time (0 -> 1) to tween progress */
+    ease?: (t: number) => number;
+}
+
+export interface RevealWaveImageRef {
+    /** Update parameters in place, optionally tweened from their current values */
+    setParams: (params: Partial<RevealParams>, options?: RevealTweenOptions) => void;
+    /** Current values, including any tween in progress */
+    getParams: () => RevealParams;
 }
 
+interface RevealParamsStore {
+    set: (params: Partial<RevealParams>, options?: RevealTweenOptions) => void;
+    /** Apply prop values - only keys whose prop changed override ref-driven values */
+    syncProps: (props: RevealParams) => void;
+    /** Advance tweens to `now` (ms) and return the current values */
+    update: (now: number) => RevealParams;
+    get: () => RevealParams;
+}
+
+interface ParamTween {
+    from: number;
+    to: number;
+    start: number;
+    duration: number;
+    ease: (t: number) => number;
+}
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+function createRevealParams(initial: RevealParams): RevealParamsStore {
+    const values = { ...initial };
+    let props = { ...initial };
+    const tweens = new Map<keyof RevealParams, ParamTween>();
+
+    const set = (params: Partial<RevealParams>, { duration = 0, ease = easeOutCubic }: RevealTweenOptions = {}) => {
+        const start = performance.now();
+        (Object.keys(params) as (keyof RevealParams)[]).forEach((key) => {
+            const to = params[key];
+            if (to === undefined) return;
+            if (duration > 0) {
+                tweens.set(key, { from: values[key], to, start, duration: duration * 1000, ease });
+            } else {
+                tweens.delete(key);
+                values[key] = to;
+            }
+        });
+    };
+
+    const syncProps = (next: RevealParams) => {
+        const changed: Partial<RevealParams> = {};
+        (Object.keys(next) as (keyof RevealParams)[]).forEach((key) => {
+            if (next[key] !== props[key]) changed[key] = next[key];
+        });
+        props = { ...next };
+        set(changed);
+    };
+
+    const update = (now: number) => {
+        tweens.forEach((tween, key) => {
+            const t = Math.min(1, Math.max(0, (now - tween.start) / tween.duration));
+            values[key] = tween.from + (tween.to - tween.from) * tween.ease(t);
+            if (t === 1) tweens.delete(key);
+        });
+        return values;
+    };
+
+    return { set, syncProps, update, get: () => ({ ...values }) };
+}
+
+/** Pointer position relative to the container (0 -> 1, y up) */
+interface RevealPointer {
+    x: number;
+    y: number;
+    /** Event timestamp (ms), for pointer speed */
+    time: number;
+    /** Where this pointer last spawned a trail ripple */
+    lastRipple: { x: number; y: number } | null;
+}
+
+/** Ripple waiting to be written into the ring buffer (container coords) */
+interface RevealRipple {
+    x: number;
+    y: number;
+    strength: number;
+}
+
+interface RevealSlot {
+    /** Pointer id driving the slot, null while it fades out */
+    pointerId: number | null;
+    uv: THREE.Vector2;
+    active: number;
+}
+
+export type RevealFit = "cover" | "contain";
+
+/** Point on the source, as fractions from its top-left corner */
+export interface FocalPoint {
+    x: number;
+    y: number;
+}
+
+/**
+ * Where the source sits in the container. "position" aligns like CSS object-position
+ * (x% of the source at x% of the container); "focal" keeps the point as close to the
+ * center as the crop allows.
+ */
+interface Placement {
+    mode: "position" | "focal";
+    x: number;
+    y: number;
+}
+
+/** Source rectangle in container fractions (top-left origin) */
+interface Layout {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+// Keywords and percentages, e.g. "center top" or "30% 70%" - missing axes stay centered
+const parseObjectPosition = (value: string): FocalPoint => {
+    const position = { x: 0.5, y: 0.5 };
+    value.trim().split(/\s+/).forEach((token, index) => {
+        if (token === "left" || token === "right") {
+            position.x = token === "left" ? 0 : 1;
+        } else if (token === "top" || token === "bottom") {
+            position.y = token === "top" ? 0 : 1;
+        } else if (token.endsWith("%")) {
+            position[index === 0 ? "x" : "y"] = parseFloat(token) / 100;
+        }
+    });
+    return position;
+};
+
+const computeLayout = (
+    aspectRatio: number,
+    containerAspect: number,
+    fit: RevealFit,
+    placement: Placement,
+): Layout => {
+    // Cover fills the container on both axes, contain fits inside it
+    const wider = aspectRatio > containerAspect;
+    const fitWidth = fit === "cover" ? !wider : wider;
+    const width = fitWidth ? 1 : aspectRatio / containerAspect;
+    const height = fitWidth ? containerAspect / aspectRatio : 1;
+
+    // Negative free space = overflow (cover), positive = letterbox (contain)
+    const place = (free: number, size: number, fraction: number) => {
+        if (placement.mode === "position") return free * fraction;
+        const offset = 0.5 - fraction * size;
+        return Math.min(Math.max(offset, Math.min(0, free)), Math.max(0, free));
+    };
+
+    return {
+        left: place(1 - width, width, placement.x),
+        top: place(1 - height, height, placement.y),
+        width,
+        height,
+    };
+};
+
+// Map container coordinates (0 -> 1, y up) to texture UVs through the layout
+const screenToUv = (screenX: number, screenY: number, layout: Layout, target: THREE.Vector2) =>
+    target.set(
+        (screenX - layout.left) / layout.width,
+        1 - (1 - screenY - layout.top) / layout.height,
+    );
+
+// Created once, on first use of the blue-noise mode - from baked data, as generating
+// the map inside useFrame stalls the animation
+let blueNoiseTexture: THREE.DataTexture | null = null;
+
+const getBlueNoiseTexture = () => {
+    if (!blueNoiseTexture) {
+        blueNoiseTexture = new THREE.DataTexture(
+            getBlueNoise(),
+            BLUE_NOISE_SIZE,
+            BLUE_NOISE_SIZE,
+            THREE.RedFormat,
+        );
+        blueNoiseTexture.magFilter = THREE.NearestFilter;
+        blueNoiseTexture.minFilter = THREE.NearestFilter;
+        blueNoiseTexture.needsUpdate = true;
+    }
+    return blueNoiseTexture;
+};
+
+const playVideo = (video: HTMLVideoElement, src: string) => {
+    video.src = src;
+    video.play().catch(() => { });
+};
+
+// Detach the source so the browser can release the decoder
+const releaseVideo = (video: HTMLVideoElement) => {
+    video.pause();
+    video.removeAttribute("src");
+    video.load();
+};
+
+// Texture for any supported source. URL videos are created, played and released here;
+// element sources stay owned by the caller (including playback).
+function useSourceTexture(source: RevealSource, sourceType?: RevealSourceType) {
+    const texture = useMemo<THREE.Texture>(() => {
+        if (source instanceof HTMLVideoElement) return new THREE.VideoTexture(source);
+        if (source instanceof HTMLCanvasElement) return new THREE.CanvasTexture(source);
+
+        if (resolveSourceType(source, sourceType) === "video") {
+            const video = document.createElement("video");
+            video.muted = true;
+            video.loop = true;
+            video.playsInline = true;
+            video.crossOrigin = "anonymous";
+            return new THREE.VideoTexture(video);
+        }
+        return new THREE.TextureLoader().load(source);
+    }, [source, sourceType]);
+
+    useEffect(() => {
+        // The src is attached here, not in useMemo, so a remount can restore it
+        const video = typeof source === "string" && texture instanceof THREE.VideoTexture
+            ? (texture.image as HTMLVideoElement)
+            : null;
+        if (video) playVideo(video, source as string);
+        return () => {
+            if (video) releaseVideo(video);
+            texture.dispose();
+        };
+    }, [source, texture]);
+
+    return texture;
+}
+
+// Width / height of the texture's source, 0 until its dimensions are known
+const getSourceAspect = (texture: THREE.Texture) => {
+    const source = texture.image as HTMLImageElement | HTMLVideoElement | HTMLCanvasElement | null;
+    let width = 0;
+    let height = 0;
+    if (source instanceof HTMLVideoElement) {
+        width = source.videoWidth;
+        height = source.videoHeight;
+    } else if (source instanceof HTMLImageElement) {
+        width = source.naturalWidth;
+        height = source.naturalHeight;
+    } else if (source) {
+        width = source.width;
+        height = source.height;
+    }
+    return width > 0 && height > 0 ? width / height : 0;
+};
+
 function ImagePlane({
     src,
-    aspectRatio,
-    revealRadius,
-    revealSoftness,
-    pixelSize,
-    waveSpeed,
-    waveFrequency,
-    waveAmplitude,
-    mouseRadius,
-    isMouseInCanvas,
+    sourceType,
+    params,
+    distortion,
+    ditherLevels,
+    ditherPalette,
+    ditherMatrix,
+    maxRipples,
+    effects,
+    fit,
+    placement,
+    pointers,
+    ripples,
 }: ImagePlaneProps) {
-    const texture = useTexture(src);
+    const texture = useSourceTexture(src, sourceType);
     const meshRef = useRef<THREE.Mesh>(null);
-    const { pointer, viewport } = useThree();
-    const mouseActiveRef = useRef(0);
-    const hasEnteredRef = useRef(true);
+    const { viewport } = useThree();
+    // Shader clock (seconds) - only advances while frames render
+    const timeRef = useRef(0);
+    const slotsRef = useRef<RevealSlot[]>(
+        Array.from({ length: MAX_REVEAL_POINTS }, () => ({
+            pointerId: null,
+            uv: new THREE.Vector2(-10, -10),
+            active: 0,
+        })),
+    );
+    // Spawned ripples (xy uv, z spawn time, w strength) and the next slot to overwrite
+    const rippleRingRef = useRef({
+        items: Array.from({ length: MAX_RIPPLES }, () => new THREE.Vector4(0, 0, -1000, 0)),
+        cursor: 0,
+    });
+
+    // Keyed on the joined colors so inline palette arrays don't rebuild the stops every render
+    const paletteKey = ditherPalette.join("|");
+    const palette = useMemo(() => {
+        const stops = paletteKey.split("|").slice(0, MAX_PALETTE_SIZE).map((value) => {
+            // Shader output is not color-managed, so stops stay in sRGB
+            const color = new THREE.Color(value).convertLinearToSRGB();
+            return new THREE.Vector3(color.r, color.g, color.b);
+        });
+        const size = stops.length;
+        // Pad to the fixed array length with the last stop
+        while (stops.length < MAX_PALETTE_SIZE) stops.push(stops[size - 1].clone());
+        return { stops, size };
+    }, [paletteKey]);
 
-    const uniforms = useMemo(
+    // Created once - everything below is written in place each frame, so uTime and
+    // the ripple buffer survive prop changes
+    const coreUniforms = useMemo(
         () => ({
-            uTexture: { value: texture },
+            uTexture: { value: null as THREE.Texture | null },
             uTime: { value: 0 },
-            uMouse: { value: new THREE.Vector2(-10, -10) },
-            uRevealRadius: { value: revealRadius },
-            uRevealSoftness: { value: revealSoftness },
-            uPixelSize: { value: pixelSize },
-            uMouseActive: { value: 0 },
-            uWaveSpeed: { value: waveSpeed },
-            uWaveFrequency: { value: waveFrequency },
-            uWaveAmplitude: { value: waveAmplitude },
-            uMouseRadius: { value: mouseRadius },
+            uPoints: {
+                value: Array.from({ length: MAX_REVEAL_POINTS }, () => new THREE.Vector2(-10, -10)),
+            },
+            uPointActive: { value: new Array<number>(MAX_REVEAL_POINTS).fill(0) },
+            uRevealRadius: { value: 0 },
+            uRevealSoftness: { value: 0 },
+            uPixelSize: { value: 1 },
+            uWaveSpeed: { value: 0 },
+            uWaveFrequency: { value: 0 },
+            uWaveAmplitude: { value: 0 },
+            uMouseRadius: { value: 0 },
+            uLevels: { value: 3 },
+            uPalette: {
+                value: Array.from({ length: MAX_PALETTE_SIZE }, () => new THREE.Vector3()),
+            },
+            uPaletteSize: { value: 2 },
+            uMatrixSize: { value: 4 },
+            uBlueNoise: { value: null as THREE.Texture | null },
+            uBlueNoiseSize: { value: BLUE_NOISE_SIZE },
+            uRipples: {
+                value: Array.from({ length: MAX_RIPPLES }, () => new THREE.Vector4(0, 0, -1000, 0)),
+            },
+            uRippleCount: { value: 0 },
+            uRippleLifetime: { value: 1 },
+            uRippleStrength: { value: 0 },
         }),
-        [
-            texture,
-            revealRadius,
-            revealSoftness,
-            pixelSize,
-            waveSpeed,
-            waveFrequency,
-            waveAmplitude,
-            mouseRadius,
-        ],
+        [],
     );
 
-    // Calculate scale to achieve object-fit: cover behavior
-    const scale = useMemo<[number, number, number]>(() => {
-        const containerAspect = viewport.width / viewport.height;
-
-        // Cover behavior: scale to fill container while maintaining image aspect ratio
-        if (aspectRatio > containerAspect) {
-            // Image is wider relative to container - scale based on height
-            const scaleY = viewport.height;
-            const scaleX = scaleY * aspectRatio;
-            return [scaleX, scaleY, 1];
-        } else {
-            // Image is taller relative to container - scale based on width  
-            const scaleX = viewport.width;
-            const scaleY = scaleX / aspectRatio;
-            return [scaleX, scaleY, 1];
-        }
-    }, [aspectRatio, viewport.width, viewport.height]);
+    // Passes own their uniform objects, so merging keeps them live
+    const fragmentShader = composeFragmentShader(effects);
+    const uniforms = Object.assign({}, coreUniforms, ...effects.map((effect) => effect.uniforms ?? {}));
 
-    useFrame((state) => {
+    useFrame((_state, delta) => {
         if (meshRef.current) {
             const material = meshRef.current.material as THREE.ShaderMaterial;
-            material.uniforms.uTime.value = state.clock.elapsedTime;
+            const { uniforms: shaderUniforms } = material;
+            timeRef.current += Math.min(delta, MAX_FRAME_DELTA);
+            shaderUniforms.uTime.value = timeRef.current;
+            shaderUniforms.uTexture.value = texture;
 
-            if (isMouseInCanvas) {
-                hasEnteredRef.current = true;
-            }
+            const values = params.update(performance.now());
+            shaderUniforms.uRevealRadius.value = values.revealRadius;
+            shaderUniforms.uRevealSoftness.value = values.revealSoftness;
+            shaderUniforms.uPixelSize.value = values.pixelSize;
+            shaderUniforms.uWaveSpeed.value = values.waveSpeed;
+            shaderUniforms.uWaveFrequency.value = values.waveFrequency;
+            shaderUniforms.uMouseRadius.value = values.mouseRadius;
+            shaderUniforms.uRippleLifetime.value = values.rippleLifetime;
+            // Hover ripple strength scales with amplitude, so 0 disables both
+            shaderUniforms.uWaveAmplitude.value = distortion ? values.waveAmplitude : 0;
+            shaderUniforms.uRippleStrength.value = distortion ? values.rippleStrength : 0;
 
-            const targetActive = isMouseInCanvas ? 1 : 0;
-            const easingSpeed = 0.08;
-            mouseActiveRef.current +=
-                (targetActive - mouseActiveRef.current) * easingSpeed;
-            material.uniforms.uMouseActive.value = mouseActiveRef.current;
-
-            if (hasEnteredRef.current) {
-                // Calculate UV coordinates accounting for cover-style scaling
-                const containerAspect = viewport.width / viewport.height;
-
-                // Convert pointer (-1 to 1) to normalized screen coords (0 to 1)
-                const screenX = (pointer.x + 1) / 2;
-                const screenY = (pointer.y + 1) / 2;
-
-                let uvX: number, uvY: number;
-
-                if (aspectRatio > containerAspect) {
-                    // Image is wider - cropped on sides
-                    // Calculate how much of the image width is visible
-                    const visibleWidthRatio = containerAspect / aspectRatio;
-                    const offsetX = (1 - visibleWidthRatio) / 2;
-                    uvX = offsetX + screenX * visibleWidthRatio;
-                    uvY = screenY;
-                } else {
-                    // Image is taller - cropped on top/bottom
-                    // Calculate how much of the image height is visible
-                    const visibleHeightRatio = aspectRatio / containerAspect;
-                    const offsetY = (1 - visibleHeightRatio) / 2;
-                    uvX = screenX;
-                    uvY = offsetY + screenY * visibleHeightRatio;
+            shaderUniforms.uLevels.value = Math.max(2, Math.round(ditherLevels));
+            palette.stops.forEach((stop, index) => shaderUniforms.uPalette.value[index].copy(stop));
+            shaderUniforms.uPaletteSize.value = palette.size;
+            shaderUniforms.uMatrixSize.value = ditherMatrix === "blue-noise" ? 0 : ditherMatrix;
+            shaderUniforms.uBlueNoise.value = ditherMatrix === "blue-noise" ? getBlueNoiseTexture() : null;
+            shaderUniforms.uRippleCount.value = Math.min(MAX_RIPPLES, Math.max(0, Math.round(maxRipples)));
+
+            // Video and image sizes arrive late and canvases can resize, so check every frame
+            const aspectRatio = getSourceAspect(texture);
+            meshRef.current.visible = aspectRatio > 0;
+            if (aspectRatio === 0) return;
+            // Canvas content may change at any time
+            const map = shaderUniforms.uTexture.value as THREE.Texture;
+            if (map instanceof THREE.CanvasTexture) map.needsUpdate = true;
+
+            const layout = computeLayout(aspectRatio, viewport.width / viewport.height, fit, placement);
+
+            // Unit plane scaled to the source rectangle, so pointer UVs match the pixels under them
+            meshRef.current.scale.set(layout.width * viewport.width, layout.height * viewport.height, 1);
+            meshRef.current.position.set(
+                (layout.left + layout.width / 2 - 0.5) * viewport.width,
+                (0.5 - layout.top - layout.height / 2) * viewport.height,
+                0,
+            );
+
+            const slots = slotsRef.current;
+            const active = pointers.current;
+
+            // Released pointers keep their last position while fading out
+            slots.forEach((slot) => {
+                if (slot.pointerId !== null && !active.has(slot.pointerId)) {
+                    slot.pointerId = null;
                 }
+            });
 
-                material.uniforms.uMouse.value.set(uvX, uvY);
-            }
+            active.forEach((point, pointerId) => {
+                let slot = slots.find((candidate) => candidate.pointerId === pointerId);
+                if (!slot) {
+                    // Take over the most faded free slot - extra pointers are ignored
+                    slot = slots
+                        .filter((candidate) => candidate.pointerId === null)
+                        .sort((a, b) => a.active - b.active)[0];
+                    if (!slot) return;
+                    slot.pointerId = pointerId;
+                }
+                screenToUv(point.x, point.y, layout, slot.uv);
+            });
+
+            const easingSpeed = 0.08;
+            slots.forEach((slot, index) => {
+                const targetActive = slot.pointerId !== null ? 1 : 0;
+                slot.active += (targetActive - slot.active) * easingSpeed;
+                shaderUniforms.uPointActive.value[index] = slot.active;
+                shaderUniforms.uPoints.value[index].copy(slot.uv);
+            });
+
+            // Write queued ripples over the oldest entries
+            const ring = rippleRingRef.current;
+            const count = shaderUniforms.uRippleCount.value;
+            ripples.current.splice(0).forEach((ripple) => {
+                if (count === 0) return;
+                const item = ring.items[ring.cursor % count];
+                const uv = screenToUv(ripple.x, ripple.y, layout, new THREE.Vector2());
+                item.set(uv.x, uv.y, timeRef.current, ripple.strength);
+                ring.cursor = (ring.cursor + 1) % count;
+            });
+            ring.items.forEach((item, index) => {
+                shaderUniforms.uRipples.value[index].copy(item);
+            });
         }
     });
 
     return (
-        <mesh ref={meshRef} scale={scale}>
-            <planeGeometry args={[2, 2]} />
+        <mesh ref={meshRef}>
+            <planeGeometry args={[1, 1]} />
             <shaderMaterial
+                // A different pass chain compiles a new material
+                key={fragmentShader}
                 vertexShader={vertexShader}
                 fragmentShader={fragmentShader}
                 uniforms={uniforms}
@@ -259,7 +565,9 @@ function ImagePlane({
 }
 
 interface RevealWaveImageProps {
-    src: string;
+    src: RevealSource;
+    /** How a URL src is loaded - inferred from the file extension by default */
+    sourceType?: RevealSourceType;
     revealRadius?: number;
     revealSoftness?: number;
     pixelSize?: number;
@@ -267,11 +575,35 @@ interface RevealWaveImageProps {
     waveFrequency?: number;
     waveAmplitude?: number;
     mouseRadius?: number;
+    /** Spawned ripples alive at once (max 16) - the oldest is replaced first */
+    maxRipples?: number;
+    /** Seconds a spawned ripple travels before it has fully decayed */
+    rippleLifetime?: number;
+    /** Distortion multiplier for spawned ripples */
+    rippleStrength?: number;
+    /** Quantization levels per pixel (min 2) */
+    ditherLevels?: number;
+    /** CSS colors the levels map onto, darkest first - 2 for duotone, up to 16 for a ramp (empty falls back to black/white) */
+    ditherPalette?: string[];
+    /** Bayer matrix size, or a tiled blue-noise texture */
+    ditherMatrix?: DitherMatrix;
+    distortion?: boolean;
+    /** How the source fills the container, like CSS object-fit */
+    fit?: RevealFit;
+    /** CSS object-position style alignment - keywords and percentages */
+    objectPosition?: string;
+    /** Source point to keep centered where the crop allows - overrides objectPosition */
+    focalPoint?: FocalPoint;
+    /** Shader passes - defaults to waves, ripples, dithering and the flashlight reveal */
+    effects?: RevealEffect[];
+    /** Set false to stop rendering, e.g. while the page hides the image - resumes seamlessly */
+    active?: boolean;
     className?: string;
 }
 
-export const RevealWaveImage = ({
+export const RevealWaveImage = forwardRef<RevealWaveImageRef, RevealWaveImageProps>(({
     src,
+    sourceType,
     revealRadius = 0.2,
     revealSoftness = 0.5,
     pixelSize = 3,
@@ -279,53 +611,192 @@ export const RevealWaveImage = ({
     waveFrequency = 3.0,
     waveAmplitude = 0.2,
     mouseRadius = 0.2,
+    maxRipples = 8,
+    rippleLifetime = 2,
+    rippleStrength = 1,
+    ditherLevels = 3,
+    ditherPalette = DEFAULT_DITHER_PALETTE,
+    ditherMatrix = 4,
+    distortion = true,
+    active = true,
+    effects = defaultRevealEffects,
+    fit = "cover",
+    objectPosition = "50% 50%",
+    focalPoint,
     className = "h-full w-full",
-}: RevealWaveImageProps) => {
-    const [isMouseInCanvas, setIsMouseInCanvas] = useState(false);
-    const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+}, ref) => {
+    // Server render and WebGL-less browsers get the static fallback
+    const webglAvailable = useSyncExternalStore(subscribeNever, isWebGLAvailable, () => false);
+    const [contextLost, setContextLost] = useState(false);
+    // Bumped on context restore - remounts the canvas with a fresh renderer
+    const [canvasGeneration, setCanvasGeneration] = useState(0);
+
+    const wrapperRef = useRef<HTMLDivElement>(null);
+    const [inView, setInView] = useState(false);
+    const pageVisible = useSyncExternalStore(subscribeVisibility, () => !document.hidden, () => true);
+    const running = active && inView && pageVisible;
 
     useEffect(() => {
-        const img = new Image();
-        img.src = src;
-        img.onload = () => {
-            setAspectRatio(img.naturalWidth / img.naturalHeight);
-        };
-    }, [src]);
+        const wrapper = wrapperRef.current;
+        if (!wrapper) return;
+        const observer = new IntersectionObserver(([entry]) => setInView(entry.isIntersecting));
+        observer.observe(wrapper);
+        return () => observer.disconnect();
+    }, []);
+    const [params] = useState(() =>
+        createRevealParams({
+            revealRadius,
+            revealSoftness,
+            pixelSize,
+            waveSpeed,
+            waveFrequency,
+            waveAmplitude,
+            mouseRadius,
+            rippleLifetime,
+            rippleStrength,
+        }),
+    );
+
+    useEffect(() => {
+        params.syncProps({
+            revealRadius,
+            revealSoftness,
+            pixelSize,
+            waveSpeed,
+            waveFrequency,
+            waveAmplitude,
+            mouseRadius,
+            rippleLifetime,
+            rippleStrength,
+        });
+    }, [
+        params,
+        revealRadius,
+        revealSoftness,
+        pixelSize,
+        waveSpeed,
+        waveFrequency,
+        waveAmplitude,
+        mouseRadius,
+        rippleLifetime,
+        rippleStrength,
+    ]);
+
+    useImperativeHandle(ref, () => ({
+        setParams: params.set,
+        getParams: params.get,
+    }), [params]);
+
+    // An empty palette has no stop to pad with - both renderers need at least one
+    const palette = ditherPalette.length > 0 ? ditherPalette : DEFAULT_DITHER_PALETTE;
+
+    const placement: Placement = focalPoint
+        ? { mode: "focal", ...focalPoint }
+        : { mode: "position", ...parseObjectPosition(objectPosition) };
+
+    const pointersRef = useRef(new Map<number, RevealPointer>());
+    const ripplesRef = useRef<RevealRipple[]>([]);
+
+    const updatePointer = (e: ReactPointerEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = (e.clientX - rect.left) / rect.width;
+        const y = 1 - (e.clientY - rect.top) / rect.height;
+        const previous = pointersRef.current.get(e.pointerId);
+        let lastRipple = previous?.lastRipple ?? null;
+
+        if (e.type === "pointerdown") {
+            // Clicks and taps always ripple at full strength
+            ripplesRef.current.push({ x, y, strength: 1 });
+            lastRipple = { x, y };
+        } else if (previous && e.timeStamp > previous.time) {
+            const speed =
+                (Math.hypot(x - previous.x, y - previous.y) / (e.timeStamp - previous.time)) * 1000;
+            const spacing = lastRipple ? Math.hypot(x - lastRipple.x, y - lastRipple.y) : Infinity;
+            if (speed > FAST_MOVE_SPEED && spacing > RIPPLE_SPACING) {
+                // Faster gestures leave stronger ripples
+                ripplesRef.current.push({ x, y, strength: Math.min(1, speed / (FAST_MOVE_SPEED * 3)) });
+                lastRipple = { x, y };
+            }
+        }
+
+        pointersRef.current.set(e.pointerId, { x, y, time: e.timeStamp, lastRipple });
+    };
+
+    const releasePointer = (e: ReactPointerEvent<HTMLDivElement>) => {
+        pointersRef.current.delete(e.pointerId);
+    };
 
     return (
         <div
-            className={`relative overflow-hidden ${className}`}
-            onMouseEnter={() => setIsMouseInCanvas(true)}
-            onMouseLeave={() => setIsMouseInCanvas(false)}
-            onPointerOver={() => setIsMouseInCanvas(true)}
-            onPointerOut={() => setIsMouseInCanvas(false)}
+            ref={wrapperRef}
+            className={`relative select-none overflow-hidden ${className}`}
+            // Touch-and-hold would otherwise open the image callout on iOS
+            style={{ WebkitTouchCallout: "none" }}
+            onPointerDown={updatePointer}
+            onPointerMove={updatePointer}
+            onPointerUp={(e) => {
+                // Touches end on release, hovering mouse/pen pointers on leave
+                if (e.pointerType === "touch") releasePointer(e);
+            }}
+            onPointerCancel={releasePointer}
+            onPointerLeave={releasePointer}
         >
-            {aspectRatio !== null && (
+            {webglAvailable && (
                 <Canvas
+                    key={canvasGeneration}
                     style={{
                         width: "100%",
                         height: "100%",
                         display: "block",
+                        // Kept mounted while lost so the restore event can still arrive
+                        visibility: contextLost ? "hidden" : "visible",
                     }}
                     gl={{ antialias: false }}
                     camera={{ position: [0, 0, 1] }}
-                    onPointerOver={() => setIsMouseInCanvas(true)}
-                    onPointerOut={() => setIsMouseInCanvas(false)}
+                    frameloop={running ? "always" : "never"}
+                    onCreated={({ gl }) => {
+                        const canvas = gl.domElement;
+                        canvas.addEventListener("webglcontextlost", (e) => {
+                            // Required for the browser to attempt a restore
+                            e.preventDefault();
+                            setContextLost(true);
+                        });
+                        canvas.addEventListener("webglcontextrestored", () => {
+                            setContextLost(false);
+                            setCanvasGeneration((generation) => generation + 1);
+                        });
+                    }}
                 >
                     <ImagePlane
                         src={src}
-                        aspectRatio={aspectRatio}
-                        revealRadius={revealRadius}
-                        revealSoftness={revealSoftness}
-                        pixelSize={pixelSize}
-                        waveSpeed={waveSpeed}
-                        waveFrequency={waveFrequency}
-                        waveAmplitude={waveAmplitude}
-                        mouseRadius={mouseRadius}
-                        isMouseInCanvas={isMouseInCanvas}
+                        sourceType={sourceType}
+                        params={params}
+                        distortion={distortion}
+                        maxRipples={maxRipples}
+                        effects={effects}
+                        fit={fit}
+                        placement={placement}
+                        ditherLevels={ditherLevels}
+                        ditherPalette={palette}
+                        ditherMatrix={ditherMatrix}
+                        pointers={pointersRef}
+                        ripples={ripplesRef}
                     />
                 </Canvas>
             )}
+            {(!webglAvailable || contextLost) && typeof src === "string" && (
+                <RevealWaveFallback
+                    src={src}
+                    kind={resolveSourceType(src, sourceType)}
+                    ditherLevels={ditherLevels}
+                    ditherPalette={palette}
+                    fit={fit}
+                    // Focal points have no CSS equivalent - aligning by the same fractions is close
+                    objectPosition={`${placement.x * 100}% ${placement.y * 100}%`}
+                />
+            )}
         </div>
     );
-}
+});
+
+RevealWaveImage.displayName = "RevealWaveImage";
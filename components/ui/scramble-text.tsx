@@ -0,0 +1,224 @@
+"use client";
+
+import { forwardRef, useEffect, useImperativeHandle, useMemo, useRef } from "react";
+import { hasJoiningScript, splitGraphemes } from "@/lib/split-graphemes";
+import { staggerRanks, type StaggerFrom } from "@/lib/stagger-order";
+
+/* =========================================================
+   ScrambleText Component
+   - Decodes text in place: each char cycles random glyphs
+     from the charset, then settles on its real character.
+     Until triggered (and after a reset) the chars are blank.
+   - Every char keeps the width of its real character (an
+     invisible copy holds the space), so nothing shifts while
+     glyphs change.
+   - Glyphs are written straight to the DOM each frame - no
+     re-render per glyph.
+   - Same accessibility handling as SplitText: one visually
+     hidden copy for screen readers, the glyphs aria-hidden.
+   ========================================================= */
+
+const DEFAULT_CHARSET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!<>-_\\/[]{}=+*^?#";
+
+interface ScrambleTextProps {
+    text: string;
+    className?: string;
+    /** Glyphs cycled through before a char settles */
+    charset?: string;
+    /** Time each glyph is shown (ms) */
+    speed?: number;
+    /** Delay between chars starting to scramble (ms) */
+    stagger?: number;
+    /** How long each char scrambles before it settles (ms) */
+    duration?: number;
+    /** Order the chars start in */
+    staggerFrom?: StaggerFrom;
+    /** Seed for staggerFrom="random" */
+    staggerSeed?: number;
+    /** Text direction - "auto" picks it from the first strong character */
+    dir?: "ltr" | "rtl" | "auto";
+    onAnimationComplete?: () => void;
+    trigger?: boolean; // External trigger to start animation
+    style?: React.CSSProperties;
+}
+
+export interface ScrambleTextRef {
+    triggerAnimation: () => void;
+    resetAnimation: () => void;
+}
+
+const isSpace = (piece: string) => piece.trim() === "";
+
+const randomGlyphs = (glyphs: string[], count: number) =>
+    Array.from({ length: count }, () => glyphs[Math.floor(Math.random() * glyphs.length)]).join("");
+
+const writeGlyph = (element: HTMLSpanElement, value: string) => {
+    if (element.textContent !== value) element.textContent = value;
+};
+
+// Blank every glyph - the invisible copies keep the width
+const clearGlyphs = (elements: (HTMLSpanElement | null)[]) => {
+    elements.forEach((element) => {
+        if (element) writeGlyph(element, "");
+    });
+};
+
+interface ScrambleRun {
+    pieces: string[];
+    /** Start of each piece (ms) */
+    starts: number[];
+    glyphs: string[];
+    speed: number;
+    duration: number;
+}
+
+// Plays one decode on the glyph elements; returns a cancel function
+const runScramble = (
+    elements: (HTMLSpanElement | null)[],
+    { pieces, starts, glyphs, speed, duration }: ScrambleRun,
+    onComplete: () => void,
+) => {
+    const counts = pieces.map((piece) => splitGraphemes(piece).length);
+    const lastEnd = Math.max(0, ...starts) + duration;
+    let startTime: number | null = null;
+    let lastStep = -1;
+    let frame: number | null = null;
+
+    const tick = (now: number) => {
+        startTime ??= now;
+        const elapsed = now - startTime;
+        // New glyphs only every speed ms, so speed sets the flicker rate
+        const step = Math.floor(elapsed / Math.max(1, speed));
+        const reroll = step !== lastStep;
+        lastStep = step;
+
+        pieces.forEach((piece, index) => {
+            const element = elements[index];
+            if (!element || isSpace(piece)) return;
+
+            const local = elapsed - starts[index];
+            if (local < 0) writeGlyph(element, "");
+            else if (local >= duration) writeGlyph(element, piece);
+            else if (reroll) writeGlyph(element, randomGlyphs(glyphs, counts[index]));
+        });
+
+        if (elapsed >= lastEnd) {
+            frame = null;
+            onComplete();
+        } else {
+            frame = requestAnimationFrame(tick);
+        }
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => {
+        if (frame !== null) cancelAnimationFrame(frame);
+    };
+};
+
+const ScrambleText = forwardRef<ScrambleTextRef, ScrambleTextProps>(({
+    text,
+    className = "",
+    charset = DEFAULT_CHARSET,
+    speed = 40,
+    stagger = 50,
+    duration = 600,
+    staggerFrom = "start",
+    staggerSeed = 1,
+    dir = "auto",
+    onAnimationComplete,
+    trigger = false,
+    style = {},
+}, ref) => {
+    const glyphRefs = useRef<(HTMLSpanElement | null)[]>([]);
+    // Cancels the running decode, if any
+    const cancelRef = useRef<(() => void) | null>(null);
+    // Latest callback, so a running decode doesn't restart when it changes
+    const onCompleteRef = useRef(onAnimationComplete);
+
+    // Joined letters lose their shaping when boxed separately - scramble whole words instead
+    const pieces = useMemo(
+        () => (hasJoiningScript(text) ? text.split(/(\s+)/) : splitGraphemes(text)),
+        [text],
+    );
+    const starts = useMemo(
+        () => staggerRanks(pieces.length, staggerFrom, staggerSeed).map((rank) => rank * stagger),
+        [pieces, staggerFrom, staggerSeed, stagger],
+    );
+    const glyphs = useMemo(() => splitGraphemes(charset), [charset]);
+
+    useEffect(() => {
+        onCompleteRef.current = onAnimationComplete;
+    }, [onAnimationComplete]);
+
+    // Expose methods via ref
+    useImperativeHandle(ref, () => ({
+        triggerAnimation: () => {
+            cancelRef.current?.();
+            cancelRef.current = runScramble(
+                glyphRefs.current,
+                { pieces, starts, glyphs, speed, duration },
+                () => onCompleteRef.current?.(),
+            );
+        },
+        resetAnimation: () => {
+            cancelRef.current?.();
+            cancelRef.current = null;
+            clearGlyphs(glyphRefs.current);
+        },
+    }));
+
+    // React to external trigger prop - and replay when the text changes while shown
+    useEffect(() => {
+        cancelRef.current?.();
+        cancelRef.current = null;
+        if (!trigger) {
+            clearGlyphs(glyphRefs.current);
+            return;
+        }
+
+        const cancel = runScramble(
+            glyphRefs.current,
+            { pieces, starts, glyphs, speed, duration },
+            () => onCompleteRef.current?.(),
+        );
+        cancelRef.current = cancel;
+        return cancel;
+    }, [trigger, pieces, starts, glyphs, speed, duration]);
+
+    return (
+        <span
+            className={`scramble-text-container ${className}`}
+            dir={dir}
+            style={{ display: "inline-block", whiteSpace: "pre", ...style }}
+        >
+            {/* First child, so dir="auto" also resolves from it */}
+            <span className="sr-only">{text}</span>
+
+            <span aria-hidden="true">
+                {pieces.map((piece, index) => isSpace(piece) ? (
+                    <span key={index}>{piece}</span>
+                ) : (
+                    <span
+                        key={index}
+                        className="scramble-text-element"
+                        style={{ position: "relative", display: "inline-block" }}
+                    >
+                        {/* Holds the real width */}
+                        <span style={{ visibility: "hidden" }}>{piece}</span>
+                        <span
+                            ref={(el) => {
+                                glyphRefs.current[index] = el;
+                            }}
+                            style={{ position: "absolute", inset: 0, textAlign: "center" }}
+                        />
+                    </span>
+                ))}
+            </span>
+        </span>
+    );
+});
+
+ScrambleText.displayName = "ScrambleText";
+
+export default ScrambleText;
@@ -1,7 +1,43 @@
 "use client";
 
-import { motion, Variants, useAnimation, type Easing } from "framer-motion";
-import { useEffect, forwardRef, useImperativeHandle } from "react";
+import {
+    motion,
+    Variants,
+    easingDefinitionToFunction,
+    isMotionValue,
+    useAnimation,
+    useMotionValue,
+    useTransform,
+    type Easing,
+    type EasingFunction,
+    type MotionValue,
+} from "framer-motion";
+import { Fragment, useEffect, forwardRef, useImperativeHandle, useRef, useState } from "react";
+import { hasJoiningScript, splitGraphemes } from "@/lib/split-graphemes";
+import { staggerRanks, type StaggerFrom } from "@/lib/stagger-order";
+
+/* =========================================================
+   SplitText Component
+   - Animates text in pieces: chars, words or rendered lines.
+   - "lines" measures where the browser actually wraps (in a
+     hidden copy), and re-splits on resize and font loads.
+   - Lines can stagger their words, and words their chars
+     (staggerDepth), each level with its own delay.
+   - Chars are graphemes, so emoji and accents stay whole.
+     Joining scripts (Arabic etc.) animate per word instead.
+   - Screen readers get the text once, from a visually
+     hidden copy; the animated pieces are aria-hidden.
+   - With progress set, pieces follow it instead of playing:
+     each gets its stagger window of the 0 -> 1 range, so the
+     text scrubs forwards and backwards.
+   - Played text can also leave (exitAnimation), start from
+     any side or in a seeded random order (staggerFrom), and
+     loop gently while it sits visible (idle).
+   ========================================================= */
+
+type SplitType = "chars" | "words" | "lines";
+
+type PieceState = { opacity?: number; y?: number; x?: number; rotateX?: number; scale?: number };
 
 interface SplitTextProps {
     text: string;
@@ -9,18 +45,86 @@ interface SplitTextProps {
     delay?: number;
     duration?: number;
     ease?: Easing;
-    splitType?: "chars" | "words";
-    from?: { opacity?: number; y?: number; x?: number; rotateX?: number; scale?: number };
-    to?: { opacity?: number; y?: number; x?: number; rotateX?: number; scale?: number };
-    textAlign?: "left" | "center" | "right";
+    splitType?: SplitType;
+    /** Lines mode: innermost animated piece - whole lines, words within lines, or chars within words */
+    staggerDepth?: SplitType;
+    /** Lines mode: stagger between lines (ms) - defaults to delay */
+    lineDelay?: number;
+    /** Lines mode with char depth: stagger between words (ms) - defaults to delay */
+    wordDelay?: number;
+    from?: PieceState;
+    to?: PieceState;
+    /** Target for exitAnimation() - defaults to from */
+    exit?: PieceState;
+    /** Order the pieces start in, applied at every level */
+    staggerFrom?: StaggerFrom;
+    /** Seed for the random stagger order and the float idle loop */
+    staggerSeed?: number;
+    /** Loop while visible: a wave along the stagger order, or pieces floating out of step */
+    idle?: "wave" | "float";
+    /** Idle loop rise (px) */
+    idleAmplitude?: number;
+    /** Idle loop cycle length (s) */
+    idleDuration?: number;
+    textAlign?: "left" | "center" | "right" | "start" | "end";
+    /** Text direction - "auto" picks it from the first strong character */
+    dir?: "ltr" | "rtl" | "auto";
     onAnimationComplete?: () => void;
     trigger?: boolean; // External trigger to start animation
+    /** Scrub mode: 0 = all pieces at from, 1 = all at to - replaces trigger, exit and idle */
+    progress?: number | MotionValue<number>;
     style?: React.CSSProperties;
 }
 
+interface ScrubPieceProps {
+    progress: MotionValue<number>;
+    /** Slice of the overall progress this piece animates over */
+    range: [number, number];
+    from: PieceState;
+    to: PieceState;
+    ease: EasingFunction;
+    className: string;
+    style: React.CSSProperties;
+    hidden?: boolean;
+    children: React.ReactNode;
+}
+
+// Its own component so every piece can hold its transforms
+const ScrubPiece = ({ progress, range: [start, end], from, to, ease, className, style, hidden, children }: ScrubPieceProps) => {
+    const local = useTransform(progress, (value) => {
+        if (end <= start) return value >= end ? 1 : 0;
+        return ease(Math.min(1, Math.max(0, (value - start) / (end - start))));
+    });
+    const opacity = useTransform(local, [0, 1], [from.opacity ?? 0, to.opacity ?? 1]);
+    const y = useTransform(local, [0, 1], [from.y ?? 0, to.y ?? 0]);
+    const x = useTransform(local, [0, 1], [from.x ?? 0, to.x ?? 0]);
+    const rotateX = useTransform(local, [0, 1], [from.rotateX ?? 0, to.rotateX ?? 0]);
+    const scale = useTransform(local, [0, 1], [from.scale ?? 1, to.scale ?? 1]);
+
+    return (
+        <motion.span
+            aria-hidden={hidden || undefined}
+            className={className}
+            style={{ ...style, opacity, y, x, rotateX, scale }}
+        >
+            {children}
+        </motion.span>
+    );
+};
+
+// Per-piece timing handed to the variants
+interface PieceCustom {
+    /** Entrance and exit delay (ms) */
+    start: number;
+    /** Idle loop delay (s) */
+    idleDelay: number;
+}
+
 export interface SplitTextRef {
     triggerAnimation: () => void;
     resetAnimation: () => void;
+    /** Plays the exit; resolves once every piece has left */
+    exitAnimation: () => Promise<void>;
 }
 
 const SplitText = forwardRef<SplitTextRef, SplitTextProps>(({
@@ -30,29 +134,127 @@ const SplitText = forwardRef<SplitTextRef, SplitTextProps>(({
     duration = 0.8,
     ease = "easeOut",
     splitType = "chars",
+    staggerDepth = "lines",
+    lineDelay = delay,
+    wordDelay = delay,
     from = { opacity: 0, y: 40 },
     to = { opacity: 1, y: 0 },
+    exit = from,
+    staggerFrom = "start",
+    staggerSeed = 1,
+    idle,
+    idleAmplitude = 6,
+    idleDuration = 2,
     textAlign = "center",
+    dir = "auto",
     onAnimationComplete,
     trigger = false,
+    progress,
     style = {},
 }, ref) => {
     const controls = useAnimation();
+    // Numeric progress is mirrored into a motion value, so both forms scrub the same way
+    const ownProgress = useMotionValue(typeof progress === "number" ? progress : 0);
+    const progressValue = progress === undefined ? null : isMotionValue(progress) ? progress : ownProgress;
+    const measureRef = useRef<HTMLSpanElement>(null);
+    // Whether the text is currently shown - re-split lines snap back to it
+    const shownRef = useRef(false);
+    // Words per rendered line, null until measured
+    const [lines, setLines] = useState<string[][] | null>(null);
+
+    // Joined letters lose their shaping when boxed separately - fall back to words
+    const joining = hasJoiningScript(text);
+    const pieceType = splitType === "chars" && joining ? "words" : splitType;
+    const depth = staggerDepth === "chars" && joining ? "words" : staggerDepth;
 
-    // Split text into chars or words
-    const elements = splitType === "chars"
-        ? text.split("")
+    // Split text into chars (graphemes) or words
+    const elements = pieceType === "chars"
+        ? splitGraphemes(text)
         : text.split(" ");
+    const words = text.split(" ");
+    const lineList = lines ?? [words];
+
+    useEffect(() => {
+        if (typeof progress === "number") ownProgress.set(progress);
+    }, [progress, ownProgress]);
+
+    // Measure line breaks on the hidden copy - it wraps exactly like the visible text would
+    useEffect(() => {
+        const measure = measureRef.current;
+        if (splitType !== "lines" || !measure) return;
+
+        const update = () => {
+            const measured: string[][] = [];
+            let lineTop: number | null = null;
+            Array.from(measure.children).forEach((child) => {
+                const top = (child as HTMLElement).offsetTop;
+                if (lineTop === null || Math.abs(top - lineTop) > 1) {
+                    measured.push([]);
+                    lineTop = top;
+                }
+                measured[measured.length - 1].push(child.textContent ?? "");
+            });
+            setLines((previous) =>
+                previous && previous.map((line) => line.join(" ")).join("\n") === measured.map((line) => line.join(" ")).join("\n")
+                    ? previous
+                    : measured,
+            );
+        };
+
+        // Fires once on observe, then on every width change
+        const observer = new ResizeObserver(update);
+        observer.observe(measure);
+        // Web fonts change word widths without necessarily resizing the copy
+        document.fonts.addEventListener("loadingdone", update);
+        document.fonts.ready.then(update);
+
+        return () => {
+            observer.disconnect();
+            document.fonts.removeEventListener("loadingdone", update);
+        };
+    }, [splitType, text]);
+
+    // Re-split lines mount hidden - put them straight into the current state
+    useEffect(() => {
+        if (!lines || !shownRef.current) return;
+        controls.set("visible");
+        if (idle) controls.start("idle");
+    }, [lines, controls, idle]);
+
+    // Start of every piece (ms): each level adds its stagger rank times its delay.
+    // Lines mode nests them as [line][word][char], with a single entry for coarser depths
+    const elementStarts = splitType === "lines"
+        ? []
+        : staggerRanks(elements.length, staggerFrom, staggerSeed).map((rank) => rank * delay);
+    const lineRanks = staggerRanks(lineList.length, staggerFrom, staggerSeed);
+    const lineStarts = splitType !== "lines" ? [] : lineList.map((lineWords, lineIndex) => {
+        const lineStart = lineRanks[lineIndex] * lineDelay;
+        if (depth === "lines") return [[lineStart]];
+
+        const wordRanks = staggerRanks(lineWords.length, staggerFrom, staggerSeed + lineIndex + 1);
+        return lineWords.map((word, wordIndex) => {
+            if (depth === "words") return [lineStart + wordRanks[wordIndex] * delay];
 
-    // Container animation variants
+            const wordStart = lineStart + wordRanks[wordIndex] * wordDelay;
+            const chars = splitGraphemes(word);
+            return staggerRanks(chars.length, staggerFrom, staggerSeed + (lineIndex + 1) * 100 + wordIndex + 1)
+                .map((rank) => wordStart + rank * delay);
+        });
+    });
+    const allStarts = splitType === "lines" ? lineStarts.flat(2) : elementStarts;
+    const lastStart = Math.max(0, ...allStarts);
+    const durationMs = duration * 1000;
+    const totalMs = lastStart + durationMs;
+    const scrubEase = easingDefinitionToFunction(ease);
+    // Float phases are shuffled over the pieces in render order
+    const floatRanks = idle === "float" ? staggerRanks(allStarts.length, "random", staggerSeed) : [];
+
+    // Container only passes labels on - every piece carries its own delay
     const containerVariants: Variants = {
         hidden: {},
-        visible: {
-            transition: {
-                staggerChildren: delay / 1000,
-                delayChildren: 0,
-            },
-        },
+        visible: {},
+        exit: {},
+        idle: {},
     };
 
     // Individual element animation variants
@@ -64,7 +266,7 @@ const SplitText = forwardRef<SplitTextRef, SplitTextProps>(({
             rotateX: from.rotateX ?? 0,
             scale: from.scale ?? 1,
         },
-        visible: {
+        visible: ({ start }: PieceCustom) => ({
             opacity: to.opacity ?? 1,
             y: to.y ?? 0,
             x: to.x ?? 0,
@@ -73,62 +275,197 @@ const SplitText = forwardRef<SplitTextRef, SplitTextProps>(({
             transition: {
                 duration,
                 ease,
+                delay: start / 1000,
             },
-        },
+        }),
+        exit: ({ start }: PieceCustom) => ({
+            opacity: exit.opacity ?? 0,
+            y: exit.y ?? 0,
+            x: exit.x ?? 0,
+            rotateX: exit.rotateX ?? 0,
+            scale: exit.scale ?? 1,
+            transition: {
+                duration,
+                ease,
+                delay: start / 1000,
+            },
+        }),
+        idle: ({ idleDelay }: PieceCustom) => ({
+            y: [to.y ?? 0, (to.y ?? 0) - idleAmplitude, to.y ?? 0],
+            transition: {
+                duration: idleDuration,
+                ease: "easeInOut",
+                repeat: Infinity,
+                delay: idleDelay,
+            },
+        }),
     };
 
     // Expose methods via ref
     useImperativeHandle(ref, () => ({
         triggerAnimation: () => {
+            shownRef.current = true;
             controls.start("visible");
         },
         resetAnimation: () => {
+            shownRef.current = false;
             controls.start("hidden");
         },
+        exitAnimation: async () => {
+            shownRef.current = false;
+            await controls.start("exit");
+        },
     }));
 
     // React to external trigger prop
     useEffect(() => {
+        shownRef.current = trigger;
         if (trigger) {
             controls.start("visible");
         } else {
+            // Stop first - a running idle loop would keep driving y
+            controls.stop();
             controls.set("hidden");
         }
     }, [trigger, controls]);
 
+    const pieceStyle: React.CSSProperties = {
+        display: "inline-block",
+        willChange: "transform, opacity",
+        transformStyle: "preserve-3d",
+    };
+
+    // Pieces in render order - indexes floatRanks
+    let pieceIndex = 0;
+
+    const renderPiece = (
+        key: React.Key,
+        start: number,
+        children: React.ReactNode,
+        { style: extraStyle, hidden }: { style?: React.CSSProperties; hidden?: boolean } = {},
+    ) => {
+        const index = pieceIndex++;
+        const custom: PieceCustom = {
+            start,
+            // Float scatters phases over a cycle, wave travels along the stagger order in half of one
+            idleDelay: idle === "float"
+                ? (floatRanks[index] / Math.max(1, allStarts.length)) * idleDuration
+                : (lastStart > 0 ? start / lastStart : 0) * idleDuration * 0.5,
+        };
+
+        return progressValue ? (
+            <ScrubPiece
+                key={key}
+                progress={progressValue}
+                range={totalMs > 0 ? [start / totalMs, (start + durationMs) / totalMs] : [0, 0]}
+                from={from}
+                to={to}
+                ease={scrubEase}
+                className="split-text-element"
+                style={{ ...pieceStyle, ...extraStyle }}
+                hidden={hidden}
+            >
+                {children}
+            </ScrubPiece>
+        ) : (
+            <motion.span
+                key={key}
+                aria-hidden={hidden || undefined}
+                className="split-text-element"
+                style={{ ...pieceStyle, ...extraStyle }}
+                variants={elementVariants}
+                custom={custom}
+            >
+                {children}
+            </motion.span>
+        );
+    };
+
     return (
         <motion.span
             className={`split-text-container ${className}`}
+            dir={dir}
             style={{
-                display: "inline-block",
                 textAlign,
                 overflow: "visible",
-                whiteSpace: "nowrap",
+                // Lines wrap naturally - their breaks come from the measurement
+                whiteSpace: splitType === "lines" ? "normal" : "nowrap",
+                display: splitType === "lines" ? "block" : "inline-block",
+                position: splitType === "lines" ? "relative" : undefined,
                 perspective: "1000px",
                 ...style,
             }}
             variants={containerVariants}
             initial="hidden"
-            animate={controls}
-            onAnimationComplete={() => {
+            animate={progressValue ? undefined : controls}
+            onAnimationComplete={(definition) => {
                 onAnimationComplete?.();
+                if (definition === "visible" && idle && shownRef.current) controls.start("idle");
             }}
         >
-            {elements.map((element, index) => (
-                <motion.span
-                    key={index}
-                    className="split-text-element"
-                    style={{
-                        display: "inline-block",
-                        willChange: "transform, opacity",
-                        transformStyle: "preserve-3d",
-                    }}
-                    variants={elementVariants}
-                >
+            {/* First child, so dir="auto" also resolves from it */}
+            <span className="sr-only">{text}</span>
+
+            {splitType !== "lines" && elements.map((element, index) => renderPiece(
+                index,
+                elementStarts[index],
+                <>
                     {element === " " ? "\u00A0" : element}
-                    {splitType === "words" && index < elements.length - 1 ? "\u00A0" : ""}
-                </motion.span>
+                    {pieceType === "words" && index < elements.length - 1 ? "\u00A0" : ""}
+                </>,
+                { hidden: true },
             ))}
+
+            {splitType === "lines" && lineList.map((lineWords, lineIndex) => {
+                const lineKey = `${lineIndex}-${lineWords.join(" ")}`;
+                if (depth === "lines") {
+                    return renderPiece(lineKey, lineStarts[lineIndex][0][0], lineWords.join(" "), {
+                        style: { display: "block" },
+                        hidden: true,
+                    });
+                }
+
+                return (
+                    <span
+                        key={lineKey}
+                        aria-hidden="true"
+                        className="split-text-line"
+                        style={{ ...pieceStyle, display: "block" }}
+                    >
+                        {lineWords.map((word, wordIndex) => {
+                            const gap = wordIndex < lineWords.length - 1 ? "\u00A0" : "";
+                            if (depth === "words") {
+                                return renderPiece(wordIndex, lineStarts[lineIndex][wordIndex][0], <>{word}{gap}</>);
+                            }
+
+                            return (
+                                <span key={wordIndex} className="split-text-word" style={pieceStyle}>
+                                    {splitGraphemes(word).map((char, charIndex) =>
+                                        renderPiece(charIndex, lineStarts[lineIndex][wordIndex][charIndex], char),
+                                    )}
+                                    {gap}
+                                </span>
+                            );
+                        })}
+                    </span>
+                );
+            })}
+
+            {splitType === "lines" && (
+                // Layout copy for measuring line breaks - same width and font, never visible
+                <span
+                    ref={measureRef}
+                    aria-hidden="true"
+                    style={{ position: "absolute", inset: "0 0 auto 0", visibility: "hidden", pointerEvents: "none" }}
+                >
+                    {words.map((word, index) => (
+                        <Fragment key={index}>
+                            {index > 0 && " "}
+                            <span style={{ display: "inline-block" }}>{word}</span>
+                        </Fragment>
+                    ))}
+                </span>
+            )}
         </motion.span>
     );
 });
@@ -0,0 +1,128 @@
+"use client";
+
+import { useRef, useSyncExternalStore, type KeyboardEvent } from "react";
+import type { ScrollTimeline } from "@/lib/scroll-timeline";
+
+/* =========================================================
+   TimelineRail Component
+   - Vertical progress rail for a scroll timeline.
+   - One marker per chapter, placed at the chapter's start.
+     Chapters whose scene is skipped (or unknown) are left out.
+   - Clicking a chapter eases the timeline to its start.
+   - Keyboard: Tab into the rail, Arrow keys move between
+     chapters, Enter/Space jumps.
+   ========================================================= */
+
+export interface TimelineChapter {
+    /** Id of the timeline scene the chapter starts at */
+    sceneId: string;
+    label: string;
+}
+
+interface TimelineRailProps {
+    timeline: ScrollTimeline;
+    chapters: TimelineChapter[];
+    className?: string;
+}
+
+export const TimelineRail = ({
+    timeline,
+    chapters,
+    className = "",
+}: TimelineRailProps) => {
+    const buttonRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+    // Re-render whenever the timeline renders a new position
+    const progress = useSyncExternalStore(
+        timeline.subscribe,
+        () => timeline.progress,
+        () => 0,
+    );
+
+    // Chapters with a scene to jump to, and their start positions normalized to the whole timeline
+    const available = chapters.flatMap((chapter) => {
+        const range = timeline.getSceneRange(chapter.sceneId);
+        return range ? [{ chapter, range }] : [];
+    });
+    const starts = available.map(({ range }) =>
+        timeline.maxScroll > 0 ? range.start / timeline.maxScroll : 0,
+    );
+
+    // Current chapter = last one whose start has been passed
+    let currentIndex = 0;
+    starts.forEach((start, index) => {
+        if (progress > start) currentIndex = index;
+    });
+
+    const focusChapter = (index: number) => {
+        const clamped = Math.max(0, Math.min(available.length - 1, index));
+        buttonRefs.current[clamped]?.focus();
+    };
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLElement>, index: number) => {
+        // Keep arrow keys inside the rail instead of scrolling the timeline
+        if (e.key === "ArrowDown" || e.key === "ArrowRight") {
+            e.preventDefault();
+            e.stopPropagation();
+            focusChapter(index + 1);
+        } else if (e.key === "ArrowUp" || e.key === "ArrowLeft") {
+            e.preventDefault();
+            e.stopPropagation();
+            focusChapter(index - 1);
+        } else if (e.key === "Home" || e.key === "End") {
+            e.preventDefault();
+            e.stopPropagation();
+            focusChapter(e.key === "Home" ? 0 : available.length - 1);
+        }
+    };
+
+    return (
+        <nav
+            aria-label="Chapters"
+            className={`fixed right-6 top-1/2 z-50 h-64 -translate-y-1/2 ${className}`}
+        >
+            {/* Track and fill */}
+            <div className="absolute right-[5px] top-0 h-full w-px bg-white/25" aria-hidden="true">
+                <div
+                    className="w-full bg-white"
+                    style={{ height: `${progress * 100}%` }}
+                />
+            </div>
+
+            <ol className="relative h-full">
+                {available.map(({ chapter }, index) => {
+                    const isCurrent = index === currentIndex;
+                    return (
+                        <li
+                            key={chapter.sceneId}
+                            className="absolute right-0 -translate-y-1/2"
+                            style={{ top: `${starts[index] * 100}%` }}
+                        >
+                            <button
+                                ref={(el) => {
+                                    buttonRefs.current[index] = el;
+                                }}
+                                type="button"
+                                aria-current={isCurrent ? "step" : undefined}
+                                onClick={() => timeline.scrollToScene(chapter.sceneId)}
+                                onKeyDown={(e) => handleKeyDown(e, index)}
+                                className="group flex items-center gap-3 rounded-full outline-none focus-visible:ring-2 focus-visible:ring-white/80"
+                            >
+                                <span
+                                    className={`whitespace-nowrap text-xs uppercase tracking-widest text-white transition-opacity duration-300 group-hover:opacity-100 group-focus-visible:opacity-100 ${isCurrent ? "opacity-100" : "opacity-0"
+                                        }`}
+                                >
+                                    {chapter.label}
+                                </span>
+                                <span
+                                    className={`block h-[11px] w-[11px] rounded-full border border-white transition-colors duration-300 ${progress >= starts[index] ? "bg-white" : "bg-black"
+                                        }`}
+                                />
+                            </button>
+                        </li>
+                    );
+                })}
+            </ol>
+        </nav>
+    );
+};
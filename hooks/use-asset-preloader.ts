@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import {
+    createAssetPreloader,
+    type AssetManifestEntry,
+    type AssetPreloader,
+    type PreloaderSnapshot,
+} from "@/lib/asset-preloader";
+
+/* =========================================================
+   useAssetPreloader Hook
+   - Owns an AssetPreloader for a (memoized) manifest.
+   - Loads while enabled, aborts and revokes on cleanup.
+   - Doesn't subscribe: components read what they need with
+     usePreloaderState (re-renders when the selected value
+     changes) or usePreloaderSnapshot (every progress update).
+   ========================================================= */
+
+const noopSubscribe = () => () => { };
+
+export function useAssetPreloader(manifest: AssetManifestEntry[] | null, enabled = true) {
+    const preloader = useMemo(
+        () => (manifest ? createAssetPreloader(manifest) : null),
+        [manifest],
+    );
+
+    useEffect(() => {
+        if (!preloader || !enabled) return;
+        preloader.load();
+        return () => preloader.dispose();
+    }, [preloader, enabled]);
+
+    return preloader;
+}
+
+/** Selected part of the snapshot - select primitives, as a new object re-renders on every update */
+export function usePreloaderState<T>(
+    preloader: AssetPreloader | null,
+    select: (snapshot: PreloaderSnapshot) => T,
+    fallback: T,
+): T {
+    return useSyncExternalStore(
+        preloader ? preloader.subscribe : noopSubscribe,
+        () => (preloader ? select(preloader.getSnapshot()) : fallback),
+        () => fallback,
+    );
+}
+
+/** Whole snapshot - re-renders with every progress update */
+export const usePreloaderSnapshot = (preloader: AssetPreloader | null) =>
+    usePreloaderState<PreloaderSnapshot | null>(preloader, (snapshot) => snapshot, null);
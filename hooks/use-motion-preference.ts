@@ -0,0 +1,76 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+
+/* =========================================================
+   useMotionPreference Hook
+   - Follows the system prefers-reduced-motion setting.
+   - Users can override it at runtime; the override is kept
+     in localStorage and shared by every hook instance.
+   - Passing null clears the override.
+   ========================================================= */
+
+const STORAGE_KEY = "insane-website:reduced-motion";
+const QUERY = "(prefers-reduced-motion: reduce)";
+
+const listeners = new Set<() => void>();
+// undefined = not read from storage yet
+let override: boolean | null | undefined;
+
+const readOverride = (): boolean | null => {
+    if (override === undefined) {
+        try {
+            const value = window.localStorage.getItem(STORAGE_KEY);
+            override = value === null ? null : value === "true";
+        } catch {
+            override = null; // Storage disabled (e.g. private mode)
+        }
+    }
+    return override;
+};
+
+const writeOverride = (value: boolean | null) => {
+    override = value;
+    try {
+        if (value === null) {
+            window.localStorage.removeItem(STORAGE_KEY);
+        } else {
+            window.localStorage.setItem(STORAGE_KEY, String(value));
+        }
+    } catch {
+        // Storage disabled - the override only lasts for this page view
+    }
+    listeners.forEach((listener) => listener());
+};
+
+const subscribe = (listener: () => void) => {
+    const query = window.matchMedia(QUERY);
+    const handleStorage = (e: StorageEvent) => {
+        if (e.key !== STORAGE_KEY) return;
+        override = undefined; // Changed in another tab - re-read
+        listener();
+    };
+
+    listeners.add(listener);
+    query.addEventListener("change", listener);
+    window.addEventListener("storage", handleStorage);
+
+    return () => {
+        listeners.delete(listener);
+        query.removeEventListener("change", listener);
+        window.removeEventListener("storage", handleStorage);
+    };
+};
+
+const getSnapshot = () => readOverride() ?? window.matchMedia(QUERY).matches;
+
+export function useMotionPreference() {
+    // Server render assumes full motion; the client corrects it on hydration
+    const reducedMotion = useSyncExternalStore(subscribe, getSnapshot, () => false);
+
+    const setReducedMotion = useCallback((value: boolean | null) => {
+        writeOverride(value);
+    }, []);
+
+    return { reducedMotion, setReducedMotion };
+}
@@ -0,0 +1,227 @@
+/* =========================================================
+   Asset Preloader
+   - Loads every asset named in a manifest and reports
+     byte-level progress for each one.
+   - Videos and images are streamed with fetch() and handed
+     out as object URLs, so media elements play from memory
+     and scrubbing never waits on the network.
+   - Fonts are loaded through the CSS Font Loading API; they
+     count towards progress with their estimated size.
+   - Critical assets load first; the rest start afterwards
+     in the background.
+   - Failed assets keep an "error" state until retried;
+     media elements that fail to decode can report back here.
+   - Snapshots are immutable, for useSyncExternalStore.
+   ========================================================= */
+
+export type AssetKind = "video" | "image" | "font";
+export type AssetStatus = "pending" | "loading" | "loaded" | "error";
+
+export interface AssetManifestEntry {
+  id: string;
+  kind: AssetKind;
+  /** URL for media, or a CSS font-family value (may be a var()) for fonts */
+  source: string;
+  /** Critical assets must be ready before the experience starts */
+  critical: boolean;
+  /** Size used for progress until the real size is known (and for fonts) */
+  estimatedBytes: number;
+  /** Image shown in place of the asset when it is missing */
+  poster?: string;
+}
+
+export interface AssetState {
+  id: string;
+  kind: AssetKind;
+  critical: boolean;
+  status: AssetStatus;
+  loadedBytes: number;
+  totalBytes: number;
+  /** Object URL for loaded media, null otherwise */
+  url: string | null;
+  poster: string | null;
+}
+
+export interface PreloaderSnapshot {
+  assets: AssetState[];
+  /** Aggregate byte progress of the critical assets (0 -> 1) */
+  criticalProgress: number;
+  /** Every critical asset has finished (loaded or failed) */
+  criticalReady: boolean;
+}
+
+export interface AssetPreloader {
+  /** Start (or resume after dispose) loading the manifest */
+  load: () => void;
+  getSnapshot: () => PreloaderSnapshot;
+  /** Load a failed asset again */
+  retry: (id: string) => void;
+  /** Mark a loaded asset as failed (e.g. its media element could not decode it) */
+  reportError: (id: string) => void;
+  subscribe: (listener: () => void) => () => void;
+  /** Abort in-flight requests and revoke object URLs */
+  dispose: () => void;
+}
+
+const isSettled = (asset: AssetState) =>
+  asset.status === "loaded" || asset.status === "error";
+
+export function createAssetPreloader(manifest: AssetManifestEntry[]): AssetPreloader {
+  const listeners = new Set<() => void>();
+  let controller: AbortController | null = null;
+
+  const initialState = (entry: AssetManifestEntry): AssetState => ({
+    id: entry.id,
+    kind: entry.kind,
+    critical: entry.critical,
+    status: "pending",
+    loadedBytes: 0,
+    totalBytes: entry.estimatedBytes,
+    url: null,
+    poster: entry.poster ?? null,
+  });
+
+  const buildSnapshot = (assets: AssetState[]): PreloaderSnapshot => {
+    const critical = assets.filter((asset) => asset.critical);
+    const loaded = critical.reduce((sum, asset) => sum + asset.loadedBytes, 0);
+    const total = critical.reduce((sum, asset) => sum + asset.totalBytes, 0);
+    return {
+      assets,
+      criticalProgress: total > 0 ? Math.min(1, loaded / total) : 1,
+      criticalReady: critical.every(isSettled),
+    };
+  };
+
+  let snapshot = buildSnapshot(manifest.map(initialState));
+
+  const update = (id: string, patch: Partial<AssetState>) => {
+    snapshot = buildSnapshot(
+      snapshot.assets.map((asset) => (asset.id === id ? { ...asset, ...patch } : asset)),
+    );
+    listeners.forEach((listener) => listener());
+  };
+
+  const loadMedia = async (entry: AssetManifestEntry, signal: AbortSignal) => {
+    const response = await fetch(entry.source, { signal });
+    if (!response.ok) throw new Error(`${entry.source} responded with ${response.status}`);
+
+    const length = Number(response.headers.get("content-length"));
+    const totalBytes = length > 0 ? length : entry.estimatedBytes;
+    update(entry.id, { totalBytes });
+
+    let blob: Blob;
+    if (response.body) {
+      const reader = response.body.getReader();
+      const chunks: Uint8Array<ArrayBuffer>[] = [];
+      let loadedBytes = 0;
+      let reportedBytes = 0;
+      for (; ;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        loadedBytes += value.byteLength;
+        // Report in 1% steps - every chunk would re-render subscribers too often
+        if (loadedBytes - reportedBytes >= totalBytes / 100) {
+          reportedBytes = loadedBytes;
+          // Unknown sizes grow with the download so progress never exceeds 100%
+          update(entry.id, { loadedBytes, totalBytes: Math.max(totalBytes, loadedBytes) });
+        }
+      }
+      blob = new Blob(chunks, { type: response.headers.get("content-type") ?? "" });
+    } else {
+      // No streaming support - progress jumps straight to done
+      blob = await response.blob();
+    }
+
+    if (signal.aborted) return;
+    update(entry.id, {
+      status: "loaded",
+      loadedBytes: blob.size,
+      totalBytes: blob.size,
+      url: URL.createObjectURL(blob),
+    });
+  };
+
+  const loadFont = async (entry: AssetManifestEntry, signal: AbortSignal) => {
+    // Resolve var(--font-x) to the family list next/font generated
+    const variable = entry.source.match(/^var\((--[\w-]+)\)$/);
+    const family = variable
+      ? getComputedStyle(document.body).getPropertyValue(variable[1]).trim()
+      : entry.source;
+
+    const faces = await document.fonts.load(`1em ${family}`);
+    if (faces.length === 0) throw new Error(`No font faces matched ${family}`);
+    if (signal.aborted) return;
+    update(entry.id, { status: "loaded", loadedBytes: entry.estimatedBytes });
+  };
+
+  const loadEntry = async (entry: AssetManifestEntry, signal: AbortSignal) => {
+    const current = snapshot.assets.find((asset) => asset.id === entry.id);
+    if (current?.status === "loaded") return;
+
+    update(entry.id, { status: "loading", loadedBytes: 0 });
+    try {
+      if (entry.kind === "font") {
+        await loadFont(entry, signal);
+      } else {
+        await loadMedia(entry, signal);
+      }
+    } catch {
+      if (signal.aborted) return;
+      update(entry.id, { status: "error" });
+    }
+  };
+
+  const load = () => {
+    if (controller) return;
+    const { signal } = (controller = new AbortController());
+
+    const critical = manifest.filter((entry) => entry.critical);
+    const background = manifest.filter((entry) => !entry.critical);
+
+    Promise.all(critical.map((entry) => loadEntry(entry, signal))).then(() => {
+      if (signal.aborted) return;
+      background.forEach((entry) => loadEntry(entry, signal));
+    });
+  };
+
+  const retry = (id: string) => {
+    const entry = manifest.find((candidate) => candidate.id === id);
+    const asset = snapshot.assets.find((candidate) => candidate.id === id);
+    if (!entry || !controller || asset?.status !== "error") return;
+    loadEntry(entry, controller.signal);
+  };
+
+  const reportError = (id: string) => {
+    const asset = snapshot.assets.find((candidate) => candidate.id === id);
+    if (!asset || asset.status === "error") return;
+    if (asset.url) URL.revokeObjectURL(asset.url);
+    update(id, { status: "error", url: null });
+  };
+
+  const dispose = () => {
+    controller?.abort();
+    controller = null;
+    snapshot.assets.forEach((asset) => {
+      if (asset.url) URL.revokeObjectURL(asset.url);
+    });
+    snapshot = buildSnapshot(manifest.map(initialState));
+    listeners.forEach((listener) => listener());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    load,
+    getSnapshot: () => snapshot,
+    retry,
+    reportError,
+    subscribe,
+    dispose,
+  };
+}
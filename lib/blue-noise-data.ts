@@ -0,0 +1,84 @@
+/* =========================================================
+   Blue Noise Data
+   - Precomputed 64x64 tileable threshold map, base64-encoded.
+     Generating it takes a noticeable main-thread stall on
+     phones, so it ships baked.
+   - Made with the void-and-cluster method (Ulichney, 1993):
+     toroidal Gaussian energy with sigma 1.5, an initial
+     pattern of 10% points placed by mulberry32 seeded with 1
+     (see ./seeded-random), relaxed, then ranked.
+   - One rank per pixel, scaled to 0-255, row-major.
+   ========================================================= */
+
+export const BLUE_NOISE_SIZE = 64;
+
+const BLUE_NOISE_BASE64 =
+  "tY4LyxrhKAhiL1ACmW3prHjQIIz/yTEKlCfUN++9NFF5JkjQMqAeSitw7jVfitFnszDUlL9XrAxHfjG9AVg24mT7TINqu5f8" +
+  "suSQwkTPFkFfDqN0ULd69G7AUo4YcYoboOa7A1bYd/uez0SwC74q7ZgURm8B14dswOiSZp/1fxY9xSyo8TlRg0MZcPEgfqD5" +
+  "j+M42SoYmUPbFJ/kSav/0WETbveGsgxgvRKSa/OfPn9WyvijK+w9H6JUENokSdKcdxznXQV8xg/TpTavX9w0BLxSq2eJ7sph" +
+  "LLR3B8cpWz7AljelJUHniTNW3yNNdNUIuiKEYLVTmM7xLbN4xY8NsNyUuIbYJupplFbfC41Nx2yBJPURs1YDqIr7O2PtfaQF" +
+  "6nzcWtNxxxf0toCkyhb7m23gO+gWxHoGY4pA/V017k5kFEgznlirMPccdrz/J63rP82URt18OekcVNWVuB7ZjSxNHK0Jlk2p" +
+  "aT0A6jGNYCVKqA6WbzD2S7veG5wHcL8n9Mxy/sMZirtIy4hAZ5gWWKELdb4tn89pwX4PLk5xQbNk87+I/DDhHZHUd127Ra/o" +
+  "xoDUUa7djBSmdFbNrueGpAOCqgxPbuYBY6Mr6QbSg+Av718c+1AQlUWu5J7L+hXjngpyQGK6f1rBKP+bE95yOQViKPs9G2XV" +
+  "N+0pg0kZOVe9Qy/altE+gfMY1qpVuERrsIvSpoZv4CP1M3JbCIm9UoE2yuYfpATwQq4MUciFGpryso7IdaDCR5kEtvlo2Znk" +
+  "Yo/pZxuvKsSbTWwzfPQhywJQJUUIxqxfidAa7qsxayHWqxiRUN03z2SH4W4t9lzYeUEYXADqJ3/iXI87C8J6I/kPxUiJ+VZy" +
+  "Dd+QwxKeOpT9fdqy7C0+mgRNvXtGz5vzQ2H3e8JtmHoXpDq5kESwKVLA7abTilSyFcNy0aUvTrB3oCe0dgik6zixIO9h2nRX" +
+  "vjZrll5/+LnZZqEm314ThcEBnSpCC/otxFXyHdYCnc4OlDJ6Ij/8bzTwIUvqi9wWPdNe8DrMJI3SW4BHqwrMHqkP5B3ODVIh" +
+  "dzT/hgW56TRv2VHksdJYquMHlnhg639j/nDWV7ydD9irVZ2AEWe9WeyDApPdYbxJbRblLoz4RIHsj1U/u57hjukXxkCYdUqp" +
+  "HreMEWqDHos1bM0ntU4ZukAkrAnjZstHjAjbuEH9JpXHMK1SGX6fCvu3msddI7VjMspv9nkzZ0KtVaRk8hzTkf1fLu2iO/TA" +
+  "Sp78P47KM+KiiutMgjCVHnX3Xi3OeaUQR3H1wS7tP8+FNE8AeeKZ1AWiI6wQ1LYA0IAM1y2vXAg+fcBJzmACdNgSWakJ8YVo" +
+  "BVnGHPm1Wum9O4etA1LjZducEmKl2HUnrWXW76k7FVD8f0ndWYYo+G847IxOyYbmp9YUiSO555Iqt4DbbCRQrtl4OpdqDdor" +
+  "oBLJbPOLK7GCJNGKRgSXVfMSkixszZBztzjFkxzmoUyUvyGzchE4aiFOZvmcNU+sZe4cNr2ezhT7KrrTRqmFTm/tRSGfOcAL" +
+  "+Vk3ufxqyRu+eUjBD1rsKNplCfVtPMRlFeVaPvuk0PK7kuEHcNqGC0DKU5P3XTuOSZ4QgPAyygG2k91Z1HbpRKl43xF/Kean" +
+  "O9uh/oO2RaobjaYstYAJ1jSdftMalFUCdirFPq0ax/97nOUEehrodbRm3lkfdJf1YCZ+Cq8ZYpMAyEyasUBai28FXSM54AR+" +
+  "8UzTX+pQrP52vAasZjGCskaiXH/uVWgxtCRuPrHSK8UC9DCNwuJCGdI9v/+XTM8q7Gwf8mTbFvEtueSPz2uaWcQ3dg/MIIs/" +
+  "HVTzReG+7R/U9w7RKI+i4g9bxNyKZKRWhEPOrAhVsmmJolNtNON7t1eiM4wGwJfLUZ16Ek+tLuQRovqFNaBqxuWTbiOJCkti" +
+  "iDiVt0cTwEuI9qYtDUn8F9ycHXI5nPkt2wbsH8QOjz7RebvWSHs4cwr4PcnvHb5xiyW3S+C7WAGlMNqozHOg3sMZa+h4+jTU" +
+  "axtEfeu+kDVotlvp1YUUd8A5sX+dWvgVJvQPXqb9Ha3SZiWkXIVC9lPaZQmUGvfTTIQQVTXyFCx7rlMApV+YCbWP4F+dIHXK" +
+  "7wmBKUe6XepPj1/RRdpvrVCLO+cpiFvmR5DAdwvVmgHLOJ/ocTx+J2y2/MNmjrVb+zzbxyzff0/vMsMB1TytEUqYwv+pAs4m" +
+  "pBf6LAW1NpfJZLRwyQe5mSwQ4Uz0sjNnr34fvVTPr5roPyKXA+FBzZUfco5FGqzQIXapS2/zWIfmLlUaZXyVQN17q2jmfR7q" +
+  "AuAZl03ePG7ugas2ayCC7RhK/ows7gxdFsx9rk50I4AIqO5dv/ZnPZVd/huUuinNqHHWjN419mvBC0rJjFK9RIWlMPl/px/F" +
+  "TtAdmcrfV76b0l8Gp0OHvnZL2y/1x6PnTNgvEJ98BbrpDc2DN98UZT0EtkOfDbEdWpvvNBie/3HCWNNDDl70fQBl/1IJjzkQ" +
+  "cyfgeMZo2DL4oQlnhxE2Yr5tiNFRN+GEU6IptmCke/qS6oAl8VbSh+MqcrjdYRAy7yJtjcqzNJS4OofBdqv4y0O4lzfxHaNY" +
+  "JI256lixkv0WQLX4IsepGjPVeEXwB029GljJZsB3OaVHywGDQarWkLESou0pdOMZ1qEm50UqZIfoWQ6xUJIC6clvPCDLRtgo" +
+  "hKEEWpZ0XvSRYuYYw5bWJ6nZNgqQIewPaPuTWPInd048gdpNBJ9XQmvxWRC12QOjHX/5bCXbd7JHFNd7mwB0XMjkeNY8C85G" +
+  "vAOtiFo2aohEd5v9tEjJgrszrBu+mQbNXMcvZrj5iMEIfsebbpBKwjLXP8mEuzZjmv+qTPIw6LQbTS+w66F+KNtxOf0g4LH2" +
+  "BeVRFmvgXp4iU999OeVq+a4KkOZ6OB7drUoi4TX1YORwq5MIWfYW3imCDWa/g6M8kfNnihRR+rMVnU7Jo3oTVL4uzX2mLwP2" +
+  "c8QJZcxJix1v8UOpEcVdmDH8jFUTuiCGDFMr659GqotWyDriIVcLatkQvynMbTWNYe6CDmQyz5xnkK8c141B0JE27KAXtC2d" +
+  "UL8lYNVJ7nMOaL/VgqY9yv+01WQdddEF7LRxkbDQ+MJHeqNc5q4b30XOJrXqiUbwHz70YEzut1gQrkyH/lrP5BCD3Zp9KYy7" +
+  "2p07AHHsV5MZdkGG5Lwua0Qj9ghLNIoVmDD8AkOUeL8FqDpX1QGqc9KEBsModxaB5mnWKnMDfDj3pz4C+7ATQFYh8LFKJtpp" +
+  "MaHIAag9k9ukhV+o13lerONUyITVLfZNaYj0dZguxRhU4aNumd6pML8fnELB4Ja3VCF0wU9qzed+qWOGzJsJv/FP6Chb/A1U" +
+  "xBPeLpYZ6Spxth9rql8Qo9kiwRVK/GSTsy9F/gw8YfiTU/APqUsaaYvM65IzoyOWBsYxF/g5ga4Si22awXCC7yd1s1L+uETO" +
+  "DI0+7hfD5Hs2m13gsIM+5w1/vFrThcZGAHPPiGHzL9oGRGMW1/Fbcv5K4bZVc99dP9AcO9gWtEaZ6DmNAGaAmfhP151Ti0Gz" +
+  "CPFCegrYIsdp7xuUK68cfN22OSLEgJ6846kut4ENPbosn2mJEcglp/x5suxPjjLQYQrIbdQkwzNivwQxcv4lZdKKuiuZYapP" +
+  "nDbNdudP8JouZaHnUhE+c1aD9m9IyJHbfQvTP5vySwOXK1gSo2blG6iFSfKbUOwVpnjnstETvaBNGmrpyjv1BIa4SQenaQ7M" +
+  "VPsMdtW0/SOaDsEgpeVjHatZ6iexYIW+Z+LGfPoDwHb1KbcTNrCH2EUmh15IlHjcMvqnUxWPctQm+2Pcjje8hCCwjUMlkWjO" +
+  "6jPbWokANu1HyZN0CNYx6R5FkjG4Spg3UNySeONfBmy69Q+iLPMHWoTFAHjeLb5Zo30WsiP0R+JuOMHxW6sIRrWObD79s3G9" +
+  "hxc38cBInHCt0Apr3SSC1WwHWb4kov04kFHM3m/EROgimEK7oUvwEkHoNNFWeaoVmNcDfN81x3pTEa3QGU2dJ/doolWDIfgO" +
+  "VH7zoFev9hjEpvhAzUt8whquejweqIuybtpg9huEarKWxWyKoQXNX+5PaaUYifYi2PIolnnI3l4NzbYS32K2ieA3H8g9C2Oc" +
+  "NIQgdQyT1y3qZgGW72EMN8sRL5A8zAXbK1EK40L5MI0evC3RQVifajeFYOU1B45BgeVIMZXQPyXBnWKK63q8Ru9e2LToZRVX" +
+  "n0LiuVDVe/1SpeJwtO1bjnX/tiRjwHWvQIL+krXkBrnKDapMuWrrsC2Xbf55BqNwT/wCrCzUkSbKAJZRJqW58ofPJIMxF7uT" +
+  "IIG/CVEqqBtDoH7XkRNS5MwHYBRuJ3xJlXDTHvqcE1LGAqggyFvs2BV5zEtwEVTmbq8we/pAdDIJbK9b9Z9pPOtkQvqfeN3G" +
+  "5w9XOqjuJ5pop9NN8MKm+y7pQYBcKtd39WHZTa86iyizlTLwttygHYhL4rsKjt3FT5joDcRI3APKmBfRiBFJYy688mwBx3k8" +
+  "GeoxgJc7XRlnugGlw4w6uB6PNIXxDMRlQuNcHoZkN//FD51n01wUov4gP3uPJXWvWSi5aDXwspB6mSLOiUq1+Y5Jvh7dBMuN" +
+  "4ppU9BjiZ6RH570YdlKb930Jo8NEBqt5Wz3wIUSuL2Z+vNVh4qj3Ndh66k6qI8sEP+BTrTDlYAnJcJxcq3XvSnwjzzV3SwfQ" +
+  "fAxe0qbiMhe30nH6k+fNJbfXcZHD84jlSAKqNBdWDoehQweX4HFX/LloDPV1F6WGLN8M/EUssw49t2KPr+2ZKPeylUMpa8uF" +
+  "WCRMMhVpUYoTmTMDeVMYzCiSbuubvM5jHv/CghI6oIIc16JFkcM91FOsOITDkmTaivoI3CVdw3JTNd6E/QGrP/Kd3IK4nt5A" +
+  "92LlptE6nrNd+MFOI3Q74LNtK1u00OculTh8zyZc924d7WDREfIgpxNzR8B/FD/bpxxtErpckdlwB8Ve7CwErn3ITCL9bQrh" +
+  "fToO3IT0lQBPj9LwRnsXUe1itxXksA6YvXuhJm9Iv1fL65Uvpv+UA4Dzx5lI6xorsDqQGkZz01gvC7iMXLqSTh+kZ7FCFF6n" +
+  "6TgLmyKsacSlAvpVc4gx10EDTeaxf+MupBxf4U5uyGG4QFop1H5pyVbjePeowozzoeF0OBLrK8/vicsrnNnCKXO7g2TH4w2B" +
+  "2UeNKqdI7maL+c6SOweaaEGBxgWzGDLtIpDmsA2mPPueE7wqWRM8H2tEl8XZfUJytQZV/XZOiPcZ1kL1MFaROyRtzbrfB8Yc" +
+  "uStaGMj+UNTyrDN09InUSaAScjlh3o4GhEtq15fogM60D/ohUKeWF2I63Bu4CjplrlShFXam/brloBA+Y5p7UZ5wsIdqKIwP" +
+  "JVfcnD9bqnfF2Yb5uSRSxC/vsUABY6dM5V6BrmgA4cb1qoKVaOvGkd8EhsLdH0oFfFTwgSH+M+XSFPND3qfCcw==";
+
+let decoded: Uint8Array | null = null;
+
+/** One rank per pixel, 0-255, row-major - decoded once and cached */
+export function getBlueNoise(): Uint8Array {
+  if (!decoded) {
+    const binary = atob(BLUE_NOISE_BASE64);
+    decoded = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) decoded[i] = binary.charCodeAt(i);
+  }
+  return decoded;
+}
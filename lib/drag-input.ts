@@ -0,0 +1,131 @@
+/* =========================================================
+   Drag Input
+   - Turns touch swipes and pointer drags into scroll deltas.
+   - Dragging up scrolls forward, like a native touch scroll.
+   - Releasing with speed starts a decaying flick.
+   - Flicks stop as soon as the receiver reports a clamped move.
+   ========================================================= */
+
+export interface DragInputOptions {
+  /** Receives a scroll delta in pixels - return false when the move was clamped */
+  onDelta: (delta: number) => boolean;
+  /** Return false to ignore input (e.g. while media is still loading) */
+  enabled?: () => boolean;
+  /** Multiplier applied to the dragged distance */
+  sensitivity?: number;
+  /** Fraction of flick velocity kept per 60fps frame */
+  friction?: number;
+  /** Releases slower than this (px/ms) do not flick */
+  minFlickVelocity?: number;
+}
+
+// Only the last few pointer samples count towards release velocity
+const VELOCITY_WINDOW_MS = 100;
+// Elements that keep their own pointer behaviour
+const IGNORED_TARGETS = "button, a, input, select, textarea, [data-drag-ignore]";
+
+interface Sample {
+  time: number;
+  y: number;
+}
+
+export function attachDragInput(
+  target: HTMLElement,
+  {
+    onDelta,
+    enabled = () => true,
+    sensitivity = 1.5,
+    friction = 0.95,
+    minFlickVelocity = 0.1,
+  }: DragInputOptions,
+): () => void {
+  let pointerId: number | null = null;
+  let lastY = 0;
+  let samples: Sample[] = [];
+  let flickFrame: number | null = null;
+
+  const stopFlick = () => {
+    if (flickFrame !== null) {
+      cancelAnimationFrame(flickFrame);
+      flickFrame = null;
+    }
+  };
+
+  const startFlick = (initialVelocity: number) => {
+    let velocity = initialVelocity;
+    let lastTime = performance.now();
+
+    const step = (now: number) => {
+      const dt = Math.min(now - lastTime, 50);
+      lastTime = now;
+
+      const moved = onDelta(velocity * dt);
+      velocity *= Math.pow(friction, dt / (1000 / 60));
+
+      if (!moved || Math.abs(velocity) < minFlickVelocity * 0.2) {
+        flickFrame = null;
+        return;
+      }
+      flickFrame = requestAnimationFrame(step);
+    };
+
+    flickFrame = requestAnimationFrame(step);
+  };
+
+  const handlePointerDown = (e: PointerEvent) => {
+    if (pointerId !== null || !e.isPrimary) return;
+    if (e.pointerType === "mouse" && e.button !== 0) return;
+    if (e.target instanceof Element && e.target.closest(IGNORED_TARGETS)) return;
+    if (!enabled()) return;
+
+    stopFlick();
+    pointerId = e.pointerId;
+    lastY = e.clientY;
+    samples = [{ time: e.timeStamp, y: e.clientY }];
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    if (e.pointerId !== pointerId) return;
+
+    const delta = (lastY - e.clientY) * sensitivity;
+    lastY = e.clientY;
+    samples.push({ time: e.timeStamp, y: e.clientY });
+    samples = samples.filter((sample) => e.timeStamp - sample.time <= VELOCITY_WINDOW_MS);
+
+    if (delta !== 0) onDelta(delta);
+  };
+
+  const handlePointerUp = (e: PointerEvent) => {
+    if (e.pointerId !== pointerId) return;
+    pointerId = null;
+
+    // A cancelled gesture (e.g. system swipe) never flicks
+    if (e.type === "pointercancel" || samples.length < 2) return;
+
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    // Held still before release - no flick
+    if (e.timeStamp - last.time > VELOCITY_WINDOW_MS / 2) return;
+
+    const elapsed = last.time - first.time;
+    if (elapsed <= 0) return;
+
+    const velocity = ((first.y - last.y) / elapsed) * sensitivity;
+    if (Math.abs(velocity) >= minFlickVelocity) {
+      startFlick(velocity);
+    }
+  };
+
+  target.addEventListener("pointerdown", handlePointerDown);
+  window.addEventListener("pointermove", handlePointerMove);
+  window.addEventListener("pointerup", handlePointerUp);
+  window.addEventListener("pointercancel", handlePointerUp);
+
+  return () => {
+    stopFlick();
+    target.removeEventListener("pointerdown", handlePointerDown);
+    window.removeEventListener("pointermove", handlePointerMove);
+    window.removeEventListener("pointerup", handlePointerUp);
+    window.removeEventListener("pointercancel", handlePointerUp);
+  };
+}
@@ -0,0 +1,334 @@
+import type { RefObject } from "react";
+
+/* =========================================================
+   Scroll Timeline
+   - Maps a single virtual scroll position onto a list of scenes.
+   - Each scene declares its length in viewport heights.
+   - Scenes receive enter / progress / exit callbacks, in order,
+     including the scenes that are skipped over by large jumps.
+   - The boundary between two scenes belongs to the earlier one.
+   - Input moves a target position; a requestAnimationFrame loop
+     eases the rendered position toward it and scenes are driven
+     from that smoothed value only.
+   - Resizing rescales every scene and keeps the normalized progress.
+   - Scenes can be skipped at runtime (e.g. their media is missing);
+     they collapse to zero length and get no callbacks.
+   ========================================================= */
+
+export type TimelineDirection = "forward" | "backward";
+
+export interface TimelineScene {
+  /** Stable identifier used for lookups and navigation */
+  id: string;
+  /** Length of the scene in viewport heights */
+  length: number;
+  /** DOM refs the scene drives - its callbacks are skipped until all are attached */
+  refs?: ReadonlyArray<RefObject<Element | null>>;
+  /** Called when the scroll position moves into the scene */
+  onEnter?: (direction: TimelineDirection) => void;
+  /** Called with the local progress (0 -> 1) whenever the scene is updated */
+  onProgress?: (progress: number) => void;
+  /** Called when the scroll position leaves the scene, after a final progress of 0 or 1 */
+  onExit?: (direction: TimelineDirection) => void;
+}
+
+export interface SceneRange {
+  start: number;
+  end: number;
+}
+
+export interface ScrollTimelineOptions {
+  scenes: TimelineScene[];
+  viewportHeight: number;
+  /** Fraction of the remaining distance covered per 60fps frame (1 = no smoothing) */
+  damping?: number;
+  /** Distance in pixels below which the rendered position snaps to the target */
+  restThreshold?: number;
+}
+
+export interface ScrollToOptions {
+  /** Jump straight to the position instead of easing toward it */
+  immediate?: boolean;
+}
+
+export interface ScrollTimeline {
+  /** Total scroll range in pixels */
+  readonly maxScroll: number;
+  /** Rendered (smoothed) virtual scroll position in pixels */
+  readonly scroll: number;
+  /** Position the rendered scroll is easing toward */
+  readonly target: number;
+  /** Rendered position normalized to 0 -> 1 */
+  readonly progress: number;
+  /** True when the rendered position has settled on the target */
+  readonly resting: boolean;
+  /** Scene currently containing the scroll position */
+  readonly activeScene: TimelineScene | null;
+  /** Move the target to an absolute position (clamped to the timeline) */
+  scrollTo: (position: number, options?: ScrollToOptions) => void;
+  /** Move the target by a relative delta - returns false when already clamped at an end */
+  scrollBy: (delta: number) => boolean;
+  /** Move the target just inside the start of a scene - returns false for unknown ids */
+  scrollToScene: (id: string, options?: ScrollToOptions) => boolean;
+  /** Re-apply the rendered position to the active scene */
+  render: () => void;
+  /** Recompute scene lengths for a new viewport height, keeping normalized progress */
+  resize: (viewportHeight: number) => void;
+  /** Skip or restore a scene, keeping the position within the other scenes */
+  setSceneSkipped: (id: string, skipped: boolean) => void;
+  /** Pixel range of a scene, or null if the id is unknown or skipped */
+  getSceneRange: (id: string) => SceneRange | null;
+  /** Listen for renders - returns an unsubscribe function */
+  subscribe: (listener: () => void) => () => void;
+  /** Stop the smoothing loop and drop listeners */
+  destroy: () => void;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+export function createScrollTimeline({
+  scenes,
+  viewportHeight,
+  damping = 0.12,
+  restThreshold = 0.5,
+}: ScrollTimelineOptions): ScrollTimeline {
+  let ranges: SceneRange[] = [];
+  let maxScroll = 0;
+  let currentHeight = viewportHeight;
+  const skipped = scenes.map(() => false);
+
+  const layout = (height: number) => {
+    currentHeight = height;
+    ranges = [];
+    let offset = 0;
+    for (const [index, scene] of scenes.entries()) {
+      const length = skipped[index] ? 0 : scene.length * height;
+      ranges.push({ start: offset, end: offset + length });
+      offset += length;
+    }
+    maxScroll = offset;
+  };
+  layout(viewportHeight);
+
+  // Virtual scroll position (not tied to browser scroll)
+  let scroll = 0;
+  let target = 0;
+  let frame: number | null = null;
+  let lastFrameTime = 0;
+  // Index of the scene that was last entered (-1 = nothing rendered yet)
+  let activeIndex = -1;
+  const listeners = new Set<() => void>();
+
+  const isLive = (index: number) =>
+    !skipped[index] &&
+    (!scenes[index].refs || scenes[index].refs.every((ref) => ref.current !== null));
+
+  const enter = (index: number, direction: TimelineDirection) => {
+    if (isLive(index)) scenes[index].onEnter?.(direction);
+  };
+
+  const progress = (index: number, value: number) => {
+    if (isLive(index)) scenes[index].onProgress?.(value);
+  };
+
+  const exit = (index: number, direction: TimelineDirection) => {
+    if (isLive(index)) scenes[index].onExit?.(direction);
+  };
+
+  const indexAt = (position: number) => {
+    for (let i = 0; i < scenes.length; i++) {
+      if (ranges[i].end > ranges[i].start && position <= ranges[i].end) return i;
+    }
+    return scenes.length - 1;
+  };
+
+  const render = () => {
+    if (scenes.length === 0) return;
+    const nextIndex = indexAt(scroll);
+
+    if (activeIndex === -1) {
+      // First render: settle every scene before the starting one
+      for (let i = 0; i < nextIndex; i++) {
+        enter(i, "forward");
+        progress(i, 1);
+        exit(i, "forward");
+      }
+      enter(nextIndex, "forward");
+    } else if (nextIndex > activeIndex) {
+      progress(activeIndex, 1);
+      exit(activeIndex, "forward");
+      for (let i = activeIndex + 1; i < nextIndex; i++) {
+        enter(i, "forward");
+        progress(i, 1);
+        exit(i, "forward");
+      }
+      enter(nextIndex, "forward");
+    } else if (nextIndex < activeIndex) {
+      progress(activeIndex, 0);
+      exit(activeIndex, "backward");
+      for (let i = activeIndex - 1; i > nextIndex; i--) {
+        enter(i, "backward");
+        progress(i, 0);
+        exit(i, "backward");
+      }
+      enter(nextIndex, "backward");
+    }
+    activeIndex = nextIndex;
+
+    const { start, end } = ranges[nextIndex];
+    const local = end > start ? (scroll - start) / (end - start) : 1;
+    progress(nextIndex, clamp(local, 0, 1));
+
+    listeners.forEach((listener) => listener());
+  };
+
+  const tick = (now: number) => {
+    // Frame-rate independent easing, capped so a stalled tab doesn't teleport
+    const frames = Math.min(now - lastFrameTime, 100) / (1000 / 60);
+    lastFrameTime = now;
+
+    const ease = 1 - Math.pow(1 - damping, frames);
+    scroll += (target - scroll) * ease;
+    if (Math.abs(target - scroll) < restThreshold) {
+      scroll = target;
+    }
+
+    // Schedule before rendering so listeners see the final resting state
+    frame = scroll === target ? null : requestAnimationFrame(tick);
+    render();
+  };
+
+  const startLoop = () => {
+    if (frame !== null) return;
+    lastFrameTime = performance.now();
+    frame = requestAnimationFrame(tick);
+  };
+
+  const stopLoop = () => {
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+      frame = null;
+    }
+  };
+
+  const scrollTo = (position: number, { immediate = false }: ScrollToOptions = {}) => {
+    target = clamp(position, 0, maxScroll);
+    if (immediate || damping >= 1) {
+      stopLoop();
+      scroll = target;
+      render();
+    } else if (target !== scroll) {
+      startLoop();
+    }
+  };
+
+  const scrollBy = (delta: number) => {
+    const next = clamp(target + delta, 0, maxScroll);
+    if (next === target) return false;
+    scrollTo(next);
+    return true;
+  };
+
+  const resize = (height: number) => {
+    const scrollProgress = maxScroll > 0 ? scroll / maxScroll : 0;
+    const targetProgress = maxScroll > 0 ? target / maxScroll : 0;
+    layout(height);
+    scroll = scrollProgress * maxScroll;
+    target = targetProgress * maxScroll;
+    if (activeIndex !== -1) render();
+  };
+
+  // Scene index and local progress of a pixel position, for re-layouts
+  const locate = (position: number) => {
+    const index = indexAt(position);
+    const { start, end } = ranges[index];
+    return { index, local: end > start ? clamp((position - start) / (end - start), 0, 1) : 0 };
+  };
+
+  const resolve = ({ index, local }: { index: number; local: number }) => {
+    const { start, end } = ranges[index];
+    return start + (end - start) * local;
+  };
+
+  const setSceneSkipped = (id: string, skip: boolean) => {
+    const index = scenes.findIndex((scene) => scene.id === id);
+    if (index === -1 || skipped[index] === skip || scenes.length === 0) return;
+
+    // Leave the scene cleanly before it stops receiving callbacks
+    const leaving = skip && index === activeIndex;
+    if (leaving) {
+      progress(index, 0);
+      exit(index, "backward");
+    }
+
+    const scrollAnchor = locate(scroll);
+    const targetAnchor = locate(target);
+    skipped[index] = skip;
+    layout(currentHeight);
+    scroll = resolve(scrollAnchor);
+    target = resolve(targetAnchor);
+
+    // Hand over to the scene now under the position - it was exited before, so enter it again
+    if (leaving) {
+      activeIndex = indexAt(scroll);
+      enter(activeIndex, activeIndex < index ? "backward" : "forward");
+    }
+    if (activeIndex !== -1) render();
+  };
+
+  const getSceneRange = (id: string) => {
+    const index = scenes.findIndex((scene) => scene.id === id);
+    return index === -1 || skipped[index] ? null : { ...ranges[index] };
+  };
+
+  const scrollToScene = (id: string, options?: ScrollToOptions) => {
+    const range = getSceneRange(id);
+    if (!range) return false;
+    // Scene boundaries belong to the earlier scene - land one pixel inside
+    scrollTo(range.start === 0 ? 0 : Math.min(range.start + 1, range.end), options);
+    return true;
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const destroy = () => {
+    stopLoop();
+    listeners.clear();
+  };
+
+  return {
+    get maxScroll() {
+      return maxScroll;
+    },
+    get scroll() {
+      return scroll;
+    },
+    get target() {
+      return target;
+    },
+    get progress() {
+      return maxScroll > 0 ? scroll / maxScroll : 0;
+    },
+    get resting() {
+      return frame === null;
+    },
+    get activeScene() {
+      return activeIndex === -1 ? null : scenes[activeIndex];
+    },
+    scrollTo,
+    scrollBy,
+    scrollToScene,
+    render,
+    resize,
+    setSceneSkipped,
+    getSceneRange,
+    subscribe,
+    destroy,
+  };
+}
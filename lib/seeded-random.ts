@@ -0,0 +1,17 @@
+/* =========================================================
+   Seeded Random
+   - Small deterministic PRNG (mulberry32): the same seed
+     always yields the same sequence, so seeded patterns and
+     orders stay stable between renders and loads.
+   - Returns a generator of floats in [0, 1), like Math.random.
+   ========================================================= */
+
+export function createSeededRandom(seed: number): () => number {
+  let state = seed | 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,36 @@
+/* =========================================================
+   Grapheme Splitting
+   - Splits text into user-perceived characters, so emoji
+     (incl. ZWJ sequences and flags), combining accents and
+     Indic clusters stay whole.
+   - Uses Intl.Segmenter; older browsers fall back to code
+     points, which at least keeps surrogate pairs together.
+   ========================================================= */
+
+let segmenter: Intl.Segmenter | null | undefined;
+
+const getSegmenter = () => {
+  if (segmenter === undefined) {
+    segmenter = typeof Intl !== "undefined" && "Segmenter" in Intl
+      ? new Intl.Segmenter(undefined, { granularity: "grapheme" })
+      : null;
+  }
+  return segmenter;
+};
+
+export function splitGraphemes(text: string): string[] {
+  const instance = getSegmenter();
+  if (!instance) return Array.from(text);
+  return Array.from(instance.segment(text), ({ segment }) => segment);
+}
+
+// Arabic, Syriac, N'Ko, Mongolian and Arabic presentation forms
+const JOINING_SCRIPTS = /[\u0600-\u08FF\u1800-\u18AF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+
+/**
+ * Whether the text uses a script whose letters connect to each other.
+ * Splitting those into separate boxes breaks the letter shaping.
+ */
+export function hasJoiningScript(text: string): boolean {
+  return JOINING_SCRIPTS.test(text);
+}
@@ -0,0 +1,40 @@
+import { createSeededRandom } from "@/lib/seeded-random";
+
+/* =========================================================
+   Stagger Order
+   - Ranks a row of items by when each one should start:
+     from the start, the end, the center out, the edges in,
+     or in a seeded random order (stable across renders).
+   - Items with the same distance (center, edges) share a
+     rank, so they start together.
+   ========================================================= */
+
+export type StaggerFrom = "start" | "end" | "center" | "edges" | "random";
+
+/** Start rank of each of count items, lowest first - 0 is always the first rank */
+export function staggerRanks(count: number, from: StaggerFrom = "start", seed = 1): number[] {
+  const middle = (count - 1) / 2;
+  const indices = Array.from({ length: count }, (_, i) => i);
+
+  switch (from) {
+    case "end":
+      return indices.map((i) => count - 1 - i);
+    case "center":
+      // Even counts have two middle items - both start at 0
+      return indices.map((i) => Math.abs(i - middle) - ((count - 1) % 2) / 2);
+    case "edges":
+      return indices.map((i) => middle - Math.abs(i - middle));
+    case "random": {
+      // Fisher-Yates shuffle of the ranks
+      const random = createSeededRandom(seed);
+      const ranks = [...indices];
+      for (let i = ranks.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [ranks[i], ranks[j]] = [ranks[j], ranks[i]];
+      }
+      return ranks;
+    }
+    default:
+      return indices;
+  }
+}
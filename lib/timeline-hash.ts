@@ -0,0 +1,107 @@
+import type { ScrollTimeline, ScrollToOptions } from "@/lib/scroll-timeline";
+
+/* =========================================================
+   Timeline Hash
+   - Mirrors the timeline position into the URL hash.
+   - "#el-capitan" links to the start of a scene.
+   - "#t=0.72" links to a normalized position on the timeline.
+   - Only the hash is touched, so the GitHub Pages basePath and
+     static export paths are preserved as-is.
+   - A new history entry is pushed when the position comes to rest
+     in a different scene; back/forward scrolls to that entry.
+   ========================================================= */
+
+// Positions within this many pixels of a scene start are written as the scene id
+const SCENE_START_TOLERANCE = 1;
+
+export type TimelineHashTarget = { sceneId: string } | { progress: number };
+
+/** Read a position from a hash, or null if it doesn't name one */
+export function parseTimelineHash(hash: string): TimelineHashTarget | null {
+  let value: string;
+  try {
+    value = decodeURIComponent(hash.replace(/^#/, ""));
+  } catch {
+    return null; // Malformed escape sequence
+  }
+  if (!value) return null;
+
+  const match = value.match(/^t=(\d*\.?\d+)$/);
+  if (match) {
+    return { progress: Math.max(0, Math.min(1, parseFloat(match[1]))) };
+  }
+  return { sceneId: value };
+}
+
+const scrollToTarget = (
+  timeline: ScrollTimeline,
+  target: TimelineHashTarget,
+  options?: ScrollToOptions,
+) => {
+  if ("sceneId" in target) {
+    return timeline.scrollToScene(target.sceneId, options);
+  }
+  timeline.scrollTo(target.progress * timeline.maxScroll, options);
+  return true;
+};
+
+/** Hash for the current rendered position ("" at the very start) */
+export function formatTimelineHash(timeline: ScrollTimeline): string {
+  if (timeline.scroll === 0) return "";
+
+  const scene = timeline.activeScene;
+  const range = scene ? timeline.getSceneRange(scene.id) : null;
+  if (scene && range && timeline.scroll - range.start <= SCENE_START_TOLERANCE) {
+    return `#${scene.id}`;
+  }
+  return `#t=${timeline.progress.toFixed(3)}`;
+}
+
+/** Scroll to the position named by the current URL hash - returns false if there is none */
+export function restoreTimelineHash(timeline: ScrollTimeline): boolean {
+  const target = parseTimelineHash(window.location.hash);
+  return target !== null && scrollToTarget(timeline, target, { immediate: true });
+}
+
+/** Keep the URL hash and browser history in sync with the timeline */
+export function attachTimelineHash(timeline: ScrollTimeline): () => void {
+  let entrySceneId = timeline.activeScene?.id ?? null;
+  // Set while settling on a history entry, so arriving there doesn't push a new one
+  let traversing = false;
+
+  const write = () => {
+    if (!timeline.resting) return;
+
+    const hash = formatTimelineHash(timeline);
+    if (hash === window.location.hash) {
+      traversing = false;
+      return;
+    }
+
+    const url = `${window.location.pathname}${window.location.search}${hash}`;
+    const sceneId = timeline.activeScene?.id ?? null;
+    if (sceneId !== entrySceneId && !traversing) {
+      window.history.pushState(null, "", url);
+    } else {
+      window.history.replaceState(window.history.state, "", url);
+    }
+    entrySceneId = sceneId;
+    traversing = false;
+  };
+
+  const handlePopState = () => {
+    const target = parseTimelineHash(window.location.hash) ?? { progress: 0 };
+    traversing = true;
+    if (!scrollToTarget(timeline, target)) timeline.scrollTo(0);
+    // Already there - nothing will render, so clear the flag now
+    if (timeline.resting) traversing = false;
+  };
+
+  const unsubscribe = timeline.subscribe(write);
+  window.addEventListener("popstate", handlePopState);
+
+  return () => {
+    unsubscribe();
+    window.removeEventListener("popstate", handlePopState);
+  };
+}
@@ -0,0 +1,169 @@
+/* =========================================================
+   Transition Machine
+   - Small typed state machine for elements that animate
+     between resting states (e.g. hidden -> centered).
+   - Each state lists the events it accepts and where they
+     lead; anything else is ignored, so repeated or out of
+     order events (fast scrolling) can't corrupt the state.
+   - Transient states wait for settle(): called by a
+     transitionend listener, by an explicit timeout, or both
+     (whichever comes first).
+   - Events a transient state can't take yet can be deferred
+     and replay once it settles. Any accepted event cancels
+     the deferred ones and the pending timeout.
+   - No DOM access - timers are injectable, so the machine
+     runs anywhere. attachTransitionEnd wires up the DOM side.
+   ========================================================= */
+
+export interface TransitionStateConfig<S extends string, E extends string> {
+  /** Target state per accepted event - moving to the current state only cancels deferred events */
+  on?: Partial<Record<E, S>>;
+  /** Marks the state as transient: where settle() leads once its transition has finished */
+  settle?: S;
+  /** Settle automatically after this many ms (transient states only) */
+  timeout?: number;
+  /** Events held back until the state settles, then replayed in order */
+  defer?: readonly E[];
+}
+
+export interface TransitionTimers {
+  set: (callback: () => void, ms: number) => unknown;
+  clear: (handle: unknown) => void;
+}
+
+export interface TransitionMachineOptions<S extends string, E extends string> {
+  initial: S;
+  states: Record<S, TransitionStateConfig<S, E>>;
+  /** Defaults to setTimeout / clearTimeout */
+  timers?: TransitionTimers;
+}
+
+export type TransitionListener<S extends string> = (state: S, previous: S) => void;
+
+export interface TransitionMachine<S extends string, E extends string> {
+  readonly state: S;
+  /** True while the current state waits for settle() */
+  readonly settling: boolean;
+  /** Feed an event - returns true when it was accepted or deferred */
+  send: (event: E) => boolean;
+  /** Finish the current transition - ignored outside transient states */
+  settle: () => void;
+  /** Listen for state changes - returns an unsubscribe function */
+  subscribe: (listener: TransitionListener<S>) => () => void;
+  /** Clear the pending timeout, deferred events and listeners */
+  destroy: () => void;
+}
+
+const defaultTimers: TransitionTimers = {
+  set: (callback, ms) => setTimeout(callback, ms),
+  clear: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export function createTransitionMachine<S extends string, E extends string>({
+  initial,
+  states,
+  timers = defaultTimers,
+}: TransitionMachineOptions<S, E>): TransitionMachine<S, E> {
+  let state = initial;
+  let deferred: E[] = [];
+  let timer: unknown = null;
+  let destroyed = false;
+  const listeners = new Set<TransitionListener<S>>();
+
+  const clearTimer = () => {
+    if (timer !== null) {
+      timers.clear(timer);
+      timer = null;
+    }
+  };
+
+  const moveTo = (next: S) => {
+    if (next === state) return;
+    clearTimer();
+    const previous = state;
+    state = next;
+
+    const { settle: settleTarget, timeout } = states[state];
+    if (settleTarget !== undefined && timeout !== undefined) {
+      timer = timers.set(() => {
+        timer = null;
+        settle();
+      }, timeout);
+    }
+    listeners.forEach((listener) => listener(state, previous));
+  };
+
+  const send = (event: E) => {
+    if (destroyed) return false;
+    const config = states[state];
+    const target = config.on?.[event];
+
+    if (target !== undefined) {
+      deferred = [];
+      moveTo(target);
+      return true;
+    }
+    if (config.settle !== undefined && config.defer?.includes(event)) {
+      if (!deferred.includes(event)) deferred.push(event);
+      return true;
+    }
+    return false;
+  };
+
+  const settle = () => {
+    const target = states[state].settle;
+    if (destroyed || target === undefined) return;
+
+    const replay = deferred;
+    deferred = [];
+    moveTo(target);
+    replay.forEach(send);
+  };
+
+  const subscribe = (listener: TransitionListener<S>) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const destroy = () => {
+    destroyed = true;
+    clearTimer();
+    deferred = [];
+    listeners.clear();
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+    get settling() {
+      return states[state].settle !== undefined;
+    },
+    send,
+    settle,
+    subscribe,
+    destroy,
+  };
+}
+
+/**
+ * Settles the machine when a CSS transition on the element itself ends.
+ * Pass a property to ignore the other transitioned properties.
+ */
+export function attachTransitionEnd(
+  machine: Pick<TransitionMachine<string, string>, "settle">,
+  element: HTMLElement,
+  property?: string,
+): () => void {
+  const handleTransitionEnd = (event: TransitionEvent) => {
+    // Transitions of children bubble up too
+    if (event.target !== element) return;
+    if (property && event.propertyName !== property) return;
+    machine.settle();
+  };
+
+  element.addEventListener("transitionend", handleTransitionEnd);
+  return () => element.removeEventListener("transitionend", handleTransitionEnd);
+}
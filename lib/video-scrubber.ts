@@ -0,0 +1,318 @@
+/* =========================================================
+   Video Scrubber
+   - Maps a progress value (0 -> 1) onto a video frame.
+   - "seek" backend: sets currentTime on the video itself.
+     Cheap, but choppy - browsers seek to keyframes, which is
+     most visible when scrubbing backwards.
+   - "frames" backend: decodes the video once into a cache of
+     ImageBitmaps and draws the frame for the current progress
+     onto a canvas. Uses WebCodecs VideoFrames captured with
+     requestVideoFrameCallback where available, and falls back
+     to seeking a hidden <video> and copying it via a canvas.
+   - The frame cache is bounded by frame count, width and bytes.
+     The byte budget follows the device memory where known; the
+     width drops first, and when even that leaves too few frames
+     the scrubber keeps seeking instead.
+   - Until the cache is complete the frames backend seeks the
+     visible video, so scrubbing works from the start.
+   ========================================================= */
+
+export type ScrubBackend = "seek" | "frames";
+
+export interface VideoScrubber {
+  /** Show the frame for a progress value (0 -> 1) */
+  seek: (progress: number) => void;
+  /** Release decoders, cached frames and listeners */
+  dispose: () => void;
+}
+
+export interface SeekScrubberOptions {
+  /** Time (seconds) that progress 0 maps to */
+  startTime?: number;
+}
+
+export interface FrameScrubberOptions extends SeekScrubberOptions {
+  /** Canvas the cached frames are drawn onto (object-fit: cover) */
+  canvas: HTMLCanvasElement;
+  /** Frames sampled per second of video */
+  fps?: number;
+  /** Upper bound on cached frames */
+  maxFrames?: number;
+  /** Cached frames are downscaled to at most this width */
+  maxWidth?: number;
+  /** Upper bound on the decoded cache size in bytes (RGBA) - defaults to a device-memory based budget */
+  maxBytes?: number;
+  /** Called once every frame has been decoded */
+  onReady?: () => void;
+}
+
+// Minimum change in seconds before seeking - avoids decoder thrash on tiny moves
+const SEEK_EPSILON = 0.01;
+
+const MB = 1024 * 1024;
+// Cached frames are not downscaled below this width to fit the budget
+const MIN_CACHE_WIDTH = 640;
+// Fewer frames than this look worse than seeking
+const MIN_CACHED_FRAMES = 24;
+
+// 16MB per GB of device memory, within 32 -> 128MB. navigator.deviceMemory is
+// Chromium-only (and capped at 8) - elsewhere assume a phone-sized 64MB
+const defaultMaxBytes = () => {
+  const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+  if (!deviceMemory) return 64 * MB;
+  return Math.min(128 * MB, Math.max(32 * MB, deviceMemory * 16 * MB));
+};
+
+export function createSeekScrubber(
+  video: HTMLVideoElement,
+  { startTime = 0 }: SeekScrubberOptions = {},
+): VideoScrubber {
+  const seek = (progress: number) => {
+    // Needs metadata for the duration
+    if (video.readyState < 1 || !video.duration || !isFinite(video.duration)) return;
+
+    // Ensure video is paused (scrubbing, not playing)
+    if (!video.paused) {
+      video.pause();
+    }
+    const targetTime = startTime + (video.duration - startTime) * progress;
+    if (Math.abs(video.currentTime - targetTime) > SEEK_EPSILON) {
+      video.currentTime = targetTime;
+    }
+  };
+
+  return { seek, dispose: () => { } };
+}
+
+const supportsWebCodecs = () =>
+  typeof VideoFrame !== "undefined" &&
+  "requestVideoFrameCallback" in HTMLVideoElement.prototype;
+
+// Rejects on a media error or when the signal aborts, so dispose never leaves it pending
+const waitFor = (target: EventTarget, type: string, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error("Scrubber disposed"));
+      return;
+    }
+    const cleanup = () => {
+      target.removeEventListener(type, handleEvent);
+      target.removeEventListener("error", handleError);
+      signal.removeEventListener("abort", handleAbort);
+    };
+    const handleEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error(`Video failed while waiting for "${type}"`));
+    };
+    const handleAbort = () => {
+      cleanup();
+      reject(new Error("Scrubber disposed"));
+    };
+    target.addEventListener(type, handleEvent);
+    target.addEventListener("error", handleError);
+    signal.addEventListener("abort", handleAbort);
+  });
+
+export function createFrameScrubber(
+  video: HTMLVideoElement,
+  {
+    canvas,
+    startTime = 0,
+    fps = 30,
+    maxFrames = 240,
+    maxWidth = 1280,
+    maxBytes = defaultMaxBytes(),
+    onReady,
+  }: FrameScrubberOptions,
+): VideoScrubber {
+  const fallback = createSeekScrubber(video, { startTime });
+  const context = canvas.getContext("2d");
+
+  let frames: (ImageBitmap | null)[] = [];
+  let ready = false;
+  let disposed = false;
+  let drawnIndex = -1;
+  let lastProgress = 0;
+  // Aborted by dispose - settles every pending wait in the decode
+  const abort = new AbortController();
+
+  // Separate element so decoding never fights the visible video
+  const decoder = document.createElement("video");
+  decoder.muted = true;
+  decoder.playsInline = true;
+  decoder.preload = "auto";
+  decoder.crossOrigin = video.crossOrigin;
+
+  const nearestFrame = (index: number) => {
+    for (let offset = 0; offset < frames.length; offset++) {
+      const before = frames[index - offset];
+      if (before) return before;
+      const after = frames[index + offset];
+      if (after) return after;
+    }
+    return null;
+  };
+
+  const draw = (progress: number) => {
+    if (!context || frames.length === 0) return;
+
+    const index = Math.round(progress * (frames.length - 1));
+    const frame = nearestFrame(index);
+    if (!frame) return;
+
+    // Match the canvas backing store to its CSS size
+    const dpr = Math.min(window.devicePixelRatio || 1, 2);
+    const width = Math.round(canvas.clientWidth * dpr);
+    const height = Math.round(canvas.clientHeight * dpr);
+    const resized = canvas.width !== width || canvas.height !== height;
+    if (resized) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    if (!resized && index === drawnIndex) return;
+    drawnIndex = index;
+
+    // Cover behavior: scale to fill while maintaining aspect ratio
+    const scale = Math.max(width / frame.width, height / frame.height);
+    const drawWidth = frame.width * scale;
+    const drawHeight = frame.height * scale;
+    context.drawImage(frame, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  };
+
+  const decodeWithVideoFrames = async (
+    count: number,
+    width: number,
+    height: number,
+  ) => {
+    const duration = decoder.duration - startTime;
+    decoder.currentTime = startTime;
+    await waitFor(decoder, "seeked", abort.signal);
+    if (disposed) return;
+
+    // Plays in real time until "ended" - or until dispose aborts it
+    await new Promise<void>((resolve, reject) => {
+      const handleAbort = () => resolve();
+      abort.signal.addEventListener("abort", handleAbort, { once: true });
+
+      const capture = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+        if (disposed) {
+          resolve();
+          return;
+        }
+        const index = Math.round(((metadata.mediaTime - startTime) / duration) * (count - 1));
+        if (index >= 0 && index < count && !frames[index]) {
+          const frame = new VideoFrame(decoder, { timestamp: Math.round(metadata.mediaTime * 1e6) });
+          createImageBitmap(frame, { resizeWidth: width, resizeHeight: height })
+            .then((bitmap) => {
+              if (disposed || frames[index]) {
+                bitmap.close();
+              } else {
+                frames[index] = bitmap;
+              }
+            })
+            .catch(() => { })
+            .finally(() => frame.close());
+        }
+        if (!decoder.ended) decoder.requestVideoFrameCallback(capture);
+      };
+
+      decoder.requestVideoFrameCallback(capture);
+      decoder.addEventListener("ended", () => {
+        abort.signal.removeEventListener("abort", handleAbort);
+        resolve();
+      }, { once: true });
+      decoder.play().catch(reject);
+    });
+  };
+
+  const decodeBySeeking = async (count: number, width: number, height: number) => {
+    const scratch = document.createElement("canvas");
+    scratch.width = width;
+    scratch.height = height;
+    const scratchContext = scratch.getContext("2d");
+    if (!scratchContext) throw new Error("Canvas 2D context unavailable");
+
+    const duration = decoder.duration - startTime;
+    for (let i = 0; i < count && !disposed; i++) {
+      // Frames decoded by a previous pass are kept
+      if (frames[i]) continue;
+      decoder.currentTime = startTime + (duration * i) / Math.max(1, count - 1);
+      await waitFor(decoder, "seeked", abort.signal);
+      if (disposed) return;
+      scratchContext.drawImage(decoder, 0, 0, width, height);
+      const bitmap = await createImageBitmap(scratch);
+      // A late VideoFrame capture may have filled the slot meanwhile
+      if (disposed || frames[i]) {
+        bitmap.close();
+      } else {
+        frames[i] = bitmap;
+      }
+    }
+  };
+
+  const decode = async () => {
+    decoder.src = video.currentSrc || video.src;
+    if (decoder.readyState < 1) await waitFor(decoder, "loadedmetadata", abort.signal);
+    if (disposed) return;
+
+    // Bound the cache: shrink the width until the wanted frames fit the budget
+    // (not below MIN_CACHE_WIDTH), then cap the frame count by memory
+    const wanted = Math.max(2, Math.min(maxFrames, Math.ceil((decoder.duration - startTime) * fps)));
+    const aspect = decoder.videoHeight / decoder.videoWidth;
+    const fitWidth = Math.floor(Math.sqrt(maxBytes / (wanted * 4 * aspect)));
+    const width = Math.min(maxWidth, decoder.videoWidth, Math.max(MIN_CACHE_WIDTH, fitWidth));
+    const height = Math.round(width * aspect);
+    const count = Math.min(wanted, Math.floor(maxBytes / (width * height * 4)));
+    // Not enough frames fit - keep seeking the visible video and let the decoder go
+    if (count < Math.min(wanted, MIN_CACHED_FRAMES)) {
+      decoder.removeAttribute("src");
+      decoder.load();
+      return;
+    }
+    frames = new Array(count).fill(null);
+
+    if (supportsWebCodecs()) {
+      try {
+        await decodeWithVideoFrames(count, width, height);
+      } catch {
+        // Playback blocked or VideoFrame refused the element - seeking fills every gap below
+      }
+    }
+    // Also fills frames that playback skipped (dropped or late callbacks)
+    await decodeBySeeking(count, width, height);
+    if (disposed) return;
+
+    ready = true;
+    draw(lastProgress);
+    onReady?.();
+  };
+
+  decode().catch(() => {
+    // Decoding failed - keep scrubbing the visible video
+  });
+
+  const seek = (progress: number) => {
+    lastProgress = progress;
+    if (ready) {
+      draw(progress);
+    } else {
+      fallback.seek(progress);
+    }
+  };
+
+  const dispose = () => {
+    disposed = true;
+    abort.abort();
+    decoder.pause();
+    decoder.removeAttribute("src");
+    decoder.load();
+    frames.forEach((frame) => frame?.close());
+    frames = [];
+  };
+
+  return { seek, dispose };
+}
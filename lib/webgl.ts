@@ -0,0 +1,24 @@
+/* =========================================================
+   WebGL Detection
+   - Checks once whether a WebGL context can be created
+     (WebGL2 first, then WebGL1) and caches the answer.
+   - The probe context is released straight away so it does
+     not count towards the browser's context limit.
+   ========================================================= */
+
+let available: boolean | undefined;
+
+export function isWebGLAvailable(): boolean {
+  if (available !== undefined) return available;
+
+  try {
+    const canvas = document.createElement("canvas");
+    const context = canvas.getContext("webgl2") ?? canvas.getContext("webgl");
+    available = context !== null;
+    context?.getExtension("WEBGL_lose_context")?.loseContext();
+  } catch {
+    // Some browsers throw instead of returning null when WebGL is blocked
+    available = false;
+  }
+  return available;
+}